@@ -0,0 +1,2 @@
+// The handler lives with the Express backend so both deployments share one scraper core
+export { default, config } from '../backend/src/vercel.js';
@@ -0,0 +1,2 @@
+// /api/earthquakes/:id — see backend/src/vercel.ts
+export { earthquakeDetailHandler as default, config } from '../../backend/src/vercel.js';
@@ -0,0 +1,254 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { pathToFileURL } from "url";
+import { sleep } from "./abort.js";
+import { getCatalog } from "./catalog.js";
+import { ARCHIVE_REQUEST_DELAY_MS, ingest } from "./ingest.js";
+import { phtPeriodRange, toPHTCalendar } from "./phtTime.js";
+
+// Backfill PHIVOLCS monthly archives into the local catalog.
+//
+//   npm run backfill -- --from 2018-01 [--to 2025-11] [--delay-ms 5000] [--retries 2] [--force]
+//
+// Progress is checkpointed after every month, so an interrupted run resumes
+// where it stopped. Months already marked "done" or "missing" are skipped
+// unless --force is given; the current month is still filling up, so it is
+// always scraped again, and once more after it has ended.
+
+export const DEFAULT_CHECKPOINT_PATH = process.env.BACKFILL_CHECKPOINT_PATH || path.resolve('data', 'backfill-checkpoint.json');
+
+export interface BackfillOptions {
+  from: string;
+  to: string;
+  delayMs: number;
+  retries: number;
+  force: boolean;
+  checkpointPath: string;
+}
+
+export interface MonthReport {
+  month: string;
+  status: 'done' | 'missing' | 'failed';
+  scraped: number;
+  created: number;
+  updated: number;
+  attempts: number;
+  durationMs: number;
+  error?: string;
+  finishedAt: string;
+}
+
+interface Checkpoint {
+  months: Record<string, MonthReport>;
+}
+
+function parseMonth(value: string): { year: number; month: number } {
+  const match = value.match(/^(\d{4})-(\d{1,2})$/);
+  const year = match ? parseInt(match[1], 10) : NaN;
+  const month = match ? parseInt(match[2], 10) : NaN;
+  if (isNaN(year) || isNaN(month) || month < 1 || month > 12) {
+    throw new Error(`Invalid month "${value}", expected YYYY-MM`);
+  }
+  return { year, month };
+}
+
+const formatMonth = (year: number, month: number) => `${year}-${String(month).padStart(2, '0')}`;
+
+// The current month in Philippine time, as YYYY-MM
+export function currentMonth(now: number = Date.now()): string {
+  const { year, month } = toPHTCalendar(now);
+  return formatMonth(year, month);
+}
+
+// Whether a month has to be (re)scraped given its last checkpointed result. Failed
+// months are retried, and so are months that weren't over when last scraped: they
+// may have gained events since, and PHIVOLCS often publishes a month's archive
+// only after the month has ended.
+export function needsBackfill(key: string, previous: MonthReport | undefined, force: boolean, now: number = Date.now()): boolean {
+  if (force || !previous || previous.status === 'failed' || key >= currentMonth(now)) return true;
+  const { year, month } = parseMonth(key);
+  return !(Date.parse(previous.finishedAt) >= phtPeriodRange(year, month).end);
+}
+
+// All months from..to inclusive, as YYYY-MM
+export function monthRange(from: string, to: string): string[] {
+  const start = parseMonth(from);
+  const end = parseMonth(to);
+  const months: string[] = [];
+  let { year, month } = start;
+  while (year < end.year || (year === end.year && month <= end.month)) {
+    months.push(formatMonth(year, month));
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+  return months;
+}
+
+async function readCheckpoint(filePath: string): Promise<Checkpoint> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8')) as Checkpoint;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') return { months: {} };
+    throw error;
+  }
+}
+
+async function writeCheckpoint(filePath: string, checkpoint: Checkpoint): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(checkpoint, null, 2), 'utf8');
+  await fs.rename(tmpPath, filePath);
+}
+
+async function backfillMonth(key: string, options: BackfillOptions): Promise<MonthReport> {
+  const { year, month } = parseMonth(key);
+  const startTime = Date.now();
+  let lastError = '';
+
+  for (let attempt = 1; attempt <= options.retries + 1; attempt++) {
+    try {
+      // A missing archive must not fall back to the latest page
+      const result = await ingest(year, month, { fallbackToLatest: false, followBulletins: false });
+      return {
+        month: key,
+        status: 'done',
+        scraped: result.scraped,
+        created: result.created.length,
+        updated: result.updated.length,
+        attempts: attempt,
+        durationMs: Date.now() - startTime,
+        finishedAt: new Date().toISOString(),
+      };
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error);
+      if (lastError.includes('Page not found')) {
+        return {
+          month: key,
+          status: 'missing',
+          scraped: 0,
+          created: 0,
+          updated: 0,
+          attempts: attempt,
+          durationMs: Date.now() - startTime,
+          error: lastError,
+          finishedAt: new Date().toISOString(),
+        };
+      }
+      if (attempt <= options.retries) {
+        const backoff = options.delayMs * 2 ** attempt;
+        console.warn(`⚠️  ${key} attempt ${attempt} failed, retrying in ${backoff}ms: ${lastError}`);
+        await sleep(backoff);
+      }
+    }
+  }
+
+  return {
+    month: key,
+    status: 'failed',
+    scraped: 0,
+    created: 0,
+    updated: 0,
+    attempts: options.retries + 1,
+    durationMs: Date.now() - startTime,
+    error: lastError,
+    finishedAt: new Date().toISOString(),
+  };
+}
+
+function printReport(reports: MonthReport[]): void {
+  console.log('\n📋 Backfill summary');
+  console.table(reports.map(({ month, status, scraped, created, updated, attempts, durationMs, error }) => ({
+    month,
+    status,
+    scraped,
+    created,
+    updated,
+    attempts,
+    seconds: Math.round(durationMs / 100) / 10,
+    error: error ? error.substring(0, 60) : '',
+  })));
+
+  const count = (status: MonthReport['status']) => reports.filter(r => r.status === status).length;
+  console.log(`✅ ${count('done')} done, ⚪ ${count('missing')} missing, ❌ ${count('failed')} failed`);
+}
+
+export async function runBackfill(options: BackfillOptions): Promise<MonthReport[]> {
+  const months = monthRange(options.from, options.to);
+  const checkpoint = await readCheckpoint(options.checkpointPath);
+  const catalog = getCatalog();
+  await catalog.load();
+
+  const pending = months.filter((key) => needsBackfill(key, checkpoint.months[key], options.force));
+  console.log(`🗂️  Backfilling ${pending.length} of ${months.length} months (${options.from} → ${options.to}), ${options.delayMs}ms between requests`);
+
+  const reports: MonthReport[] = [];
+  for (let i = 0; i < pending.length; i++) {
+    const key = pending[i];
+    console.log(`\n📅 [${i + 1}/${pending.length}] ${key}`);
+
+    const report = await backfillMonth(key, options);
+    reports.push(report);
+    checkpoint.months[key] = report;
+    await writeCheckpoint(options.checkpointPath, checkpoint);
+
+    // Rate limit between monthly archive requests
+    if (i < pending.length - 1) {
+      await sleep(options.delayMs);
+    }
+  }
+
+  printReport(reports);
+  console.log(`📚 Catalog now holds ${catalog.size} earthquakes`);
+  return reports;
+}
+
+export function parseArgs(argv: string[]): BackfillOptions {
+  const options: BackfillOptions = {
+    from: '',
+    to: currentMonth(),
+    delayMs: ARCHIVE_REQUEST_DELAY_MS,
+    retries: 2,
+    force: false,
+    checkpointPath: DEFAULT_CHECKPOINT_PATH,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => {
+      const value = argv[++i];
+      if (value === undefined) throw new Error(`Missing value for ${arg}`);
+      return value;
+    };
+
+    switch (arg) {
+      case '--from': options.from = next(); break;
+      case '--to': options.to = next(); break;
+      case '--delay-ms': options.delayMs = parseInt(next(), 10); break;
+      case '--retries': options.retries = parseInt(next(), 10); break;
+      case '--checkpoint': options.checkpointPath = path.resolve(next()); break;
+      case '--force': options.force = true; break;
+      default: throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  if (!options.from) throw new Error('--from YYYY-MM is required');
+  const from = parseMonth(options.from);
+  const to = parseMonth(options.to);
+  if (from.year * 12 + from.month > to.year * 12 + to.month) throw new Error('--from must not be after --to');
+  if (isNaN(options.delayMs) || options.delayMs < 0) throw new Error('--delay-ms must be a non-negative number');
+  if (isNaN(options.retries) || options.retries < 0) throw new Error('--retries must be a non-negative number');
+  return options;
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] || '').href) {
+  try {
+    const reports = await runBackfill(parseArgs(process.argv.slice(2)));
+    process.exitCode = reports.some(r => r.status === 'failed') ? 1 : 0;
+  } catch (error) {
+    console.error('❌ Backfill failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+}
@@ -0,0 +1,344 @@
+import type { Browser, Page } from "puppeteer";
+import { sleep } from "./abort.js";
+import { BrowserLaunchError, BrowserPool } from "./browserPool.js";
+import { envNumber } from "./env.js";
+import { isMonthlyArchiveUrl } from "./source.js";
+import type { FetchedPage } from "./types.js";
+
+export const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+// Starts a headless browser; the browser pool decides when to close it
+export type BrowserLauncher = () => Promise<Browser>;
+
+// Full puppeteer with its bundled Chromium, for local development and servers.
+// Imported lazily so deployments without a local Chromium can still load this module.
+export const launchLocalPuppeteer: BrowserLauncher = async () => {
+  const { default: puppeteer } = await import('puppeteer');
+  let browser: Browser | null = null;
+
+  // Launch options for both local and cloud environments
+  const launchOptions: any = {
+    headless: true,
+    ignoreHTTPSErrors: true,
+    args: [
+      '--no-sandbox',
+      '--disable-setuid-sandbox',
+      '--disable-dev-shm-usage',
+      '--disable-accelerated-2d-canvas',
+      '--disable-gpu',
+      '--disable-blink-features=AutomationControlled',
+      '--no-proxy-server',
+      '--disable-web-security',
+      '--ignore-certificate-errors',
+      '--ignore-ssl-errors',
+      '--disable-extensions',
+      '--disable-background-networking',
+      '--disable-background-timer-throttling',
+      '--disable-backgrounding-occluded-windows',
+      '--disable-breakpad',
+      '--disable-client-side-phishing-detection',
+      '--disable-default-apps',
+      '--disable-features=TranslateUI',
+      '--disable-hang-monitor',
+      '--disable-popup-blocking',
+      '--disable-prompt-on-repost',
+      '--disable-sync',
+      '--disable-translate',
+      '--metrics-recording-only',
+      '--no-first-run',
+      '--safebrowsing-disable-auto-update',
+      '--enable-automation',
+      '--password-store=basic',
+      '--use-mock-keychain'
+    ]
+  };
+
+  // Try to launch; if it fails, retry with an explicitly configured executable
+  try {
+    browser = await puppeteer.launch(launchOptions);
+    console.log('✅ Browser launched successfully');
+  } catch (launchError) {
+    console.error('❌ Initial Puppeteer launch failed:', launchError instanceof Error ? launchError.message : launchError);
+    // Log the default executable path Puppeteer knows about (if any)
+    try {
+      const defaultPath = puppeteer.executablePath();
+      console.log('🔍 puppeteer.executablePath() =', defaultPath);
+    } catch (e) {
+      console.log('🔍 Could not read puppeteer.executablePath()');
+    }
+
+    // 1) If there's an env var override, try that
+    const envPath = process.env.PUPPETEER_EXECUTABLE_PATH;
+    if (envPath) {
+      console.log('🔁 Trying PUPPETEER_EXECUTABLE_PATH:', envPath);
+      try {
+        browser = await puppeteer.launch({ ...launchOptions, executablePath: envPath });
+        console.log('✅ Browser launched with PUPPETEER_EXECUTABLE_PATH');
+      } catch (envErr) {
+        console.error('❌ Launch with PUPPETEER_EXECUTABLE_PATH failed:', envErr instanceof Error ? envErr.message : envErr);
+      }
+    }
+
+    // 2) If still no browser, throw a clear error so caller knows remediation steps
+    if (!browser) {
+      throw new Error('Puppeteer failed to launch. Ensure Chromium is available: run `npm install` in backend (which runs Puppeteer postinstall), or set PUPPETEER_EXECUTABLE_PATH to a valid Chrome/Chromium binary. Check server logs for details.');
+    }
+  }
+
+  return browser;
+};
+
+// Serverless Chromium (chrome-aws-lambda) driven by puppeteer-core, for Vercel/AWS Lambda
+export const launchServerlessChromium: BrowserLauncher = async () => {
+  // Only installed in the Vercel deployment; typed in chrome-aws-lambda.d.ts
+  const { default: chromium } = await import('chrome-aws-lambda');
+  const { default: puppeteer } = await import('puppeteer-core');
+
+  const executablePath = await chromium.executablePath;
+  console.log('🔍 Chrome executable path:', executablePath);
+  const browser = await puppeteer.launch({
+    args: chromium.args,
+    defaultViewport: chromium.defaultViewport,
+    executablePath,
+    headless: chromium.headless,
+  });
+  console.log('✅ Browser launched successfully');
+  // Same runtime class; puppeteer and puppeteer-core just ship separate type declarations
+  return browser as unknown as Browser;
+};
+
+// local: puppeteer's bundled Chromium (default)
+// serverless: chrome-aws-lambda (default on Vercel)
+// none: never launch a browser; pages must be fetched over plain HTTP
+export function resolveBrowserLauncher(value = process.env.SCRAPER_BROWSER): BrowserLauncher | null {
+  const kind = value || (process.env.VERCEL ? 'serverless' : 'local');
+  switch (kind) {
+    case 'serverless':
+      return launchServerlessChromium;
+    case 'none':
+      return null;
+    case 'local':
+      return launchLocalPuppeteer;
+    default:
+      console.warn(`⚠️  Unknown SCRAPER_BROWSER "${value}", using "local"`);
+      return launchLocalPuppeteer;
+  }
+}
+
+let activeLauncher: BrowserLauncher | null = resolveBrowserLauncher();
+let activePool: BrowserPool | null = null;
+
+export function getBrowserLauncher(): BrowserLauncher | null {
+  return activeLauncher;
+}
+
+// Swap the launcher used by the scraper (null disables the browser fallback).
+// Browsers from the previous launcher are closed.
+export function setBrowserLauncher(launcher: BrowserLauncher | null): void {
+  activeLauncher = launcher;
+  if (activePool) {
+    void activePool.close();
+    activePool = null;
+  }
+}
+
+// Done once per pooled page; recycled pages keep their settings and listeners
+async function preparePage(page: Page): Promise<void> {
+  // Set viewport
+  await page.setViewport({ width: 1920, height: 1080 });
+  
+  // Set user agent to avoid detection
+  await page.setUserAgent(USER_AGENT);
+  
+  // Remove webdriver property
+  await page.evaluateOnNewDocument(() => {
+    // @ts-ignore - navigator is available in browser context
+    Object.defineProperty(navigator, 'webdriver', {
+      get: () => false,
+    });
+  });
+
+  // Set up error handlers (before navigation)
+  page.on('error', (error) => {
+    console.log('⚠️  Page error (non-fatal):', error.message);
+  });
+  
+  page.on('pageerror', (error) => {
+    console.log('⚠️  Page script error (non-fatal):', error.message);
+  });
+}
+
+// Shared pool for the active launcher, or null when browsers are disabled.
+// Serverless instances get a single browser.
+export function getBrowserPool(): BrowserPool | null {
+  if (!activeLauncher) return null;
+  if (!activePool) {
+    activePool = new BrowserPool(activeLauncher, {
+      maxBrowsers: envNumber('BROWSER_POOL_MAX_BROWSERS', process.env.VERCEL ? 1 : 2),
+      maxPagesPerBrowser: envNumber('BROWSER_POOL_MAX_PAGES', 2),
+      maxUses: envNumber('BROWSER_POOL_MAX_USES', 50),
+      maxAgeMs: envNumber('BROWSER_POOL_MAX_AGE_MS', 30 * 60 * 1000),
+      idleTimeoutMs: envNumber('BROWSER_POOL_IDLE_MS', 5 * 60 * 1000),
+      minBrowsers: envNumber('BROWSER_POOL_WARM', 0),
+      acquireTimeoutMs: envNumber('BROWSER_POOL_ACQUIRE_TIMEOUT_MS', 60 * 1000),
+      setupPage: preparePage,
+    });
+  }
+  return activePool;
+}
+
+// Log a failed launch and explain it in terms of what to fix
+function launchFailure(launchError: unknown): Error {
+  console.error('❌ Failed to launch browser:', launchError);
+  const errorMessage = launchError instanceof Error ? launchError.message : 'Unknown error';
+  const errorStack = launchError instanceof Error ? launchError.stack : 'No stack trace';
+  
+  console.error('Launch error details:', {
+    message: errorMessage,
+    stack: errorStack,
+    platform: process.platform,
+    nodeVersion: process.version
+  });
+  
+  // Provide more helpful error messages
+  if (errorMessage.includes('Executable doesn\'t exist') || errorMessage.includes('Could not find')) {
+    return new Error('Puppeteer Chromium not found. Please run "npm install" in the backend directory to download Chromium, or install Chrome/Chromium manually.');
+  } else if (errorMessage.includes('spawn') || errorMessage.includes('ENOENT')) {
+    return new Error('Cannot find browser executable. Please ensure Chromium is installed. Try running "npm install" in the backend directory.');
+  } else {
+    return new Error(`Failed to launch browser: ${errorMessage}. This might be a system configuration issue. Check backend console for details.`);
+  }
+}
+
+// Navigate a pooled page to a PHIVOLCS URL and return its rendered HTML
+async function loadPage(page: Page, targetUrl: string, fallbackUrl?: string, signal?: AbortSignal): Promise<FetchedPage> {
+  console.log('🌐 Navigating to PHIVOLCS website...');
+  
+  let response;
+  try {
+    response = await page.goto(targetUrl, {
+      waitUntil: 'domcontentloaded',
+      timeout: 90000 // Increased timeout
+    });
+  } catch (navError) {
+    const errorMsg = navError instanceof Error ? navError.message : 'Unknown error';
+    console.error('⚠️  Navigation error:', errorMsg);
+    
+    // Check if it's a proxy error
+    if (errorMsg.includes('proxy') || errorMsg.includes('PROXY') || errorMsg.includes('net::ERR_PROXY')) {
+      console.log('💡 Proxy error detected. Trying alternative approach...');
+      // Try without request interception
+      try {
+        response = await page.goto(fallbackUrl || targetUrl, {
+          waitUntil: 'load',
+          timeout: 90000
+        });
+      } catch (retryError) {
+        console.error('❌ Retry also failed:', retryError);
+        throw new Error(`Proxy error: Cannot connect to PHIVOLCS website. Please check your network/proxy settings.`);
+      }
+    } else {
+      // For other errors, try to continue anyway
+      response = null;
+    }
+  }
+
+  // Check response status
+  if (response) {
+    const status = response.status();
+    console.log(`📊 Page response status: ${status}`);
+    
+    if (status === 404) {
+      // If monthly URL returns 404, fall back to default URL
+      if (fallbackUrl) {
+        console.log(`⚠️  Monthly URL returned 404, falling back to default URL and filtering...`);
+        targetUrl = fallbackUrl;
+        try {
+          response = await page.goto(targetUrl, {
+            waitUntil: 'domcontentloaded',
+            timeout: 90000
+          });
+          console.log(`✅ Fallback to default URL successful`);
+          if (response) {
+            const fallbackStatus = response.status();
+            console.log(`📊 Fallback page response status: ${fallbackStatus}`);
+          }
+        } catch (fallbackError) {
+          console.error('❌ Fallback also failed:', fallbackError);
+          throw new Error(`Monthly page not found and fallback failed. The URL format might be incorrect.`);
+        }
+      } else {
+        throw new Error(`Page not found (404): ${targetUrl}`);
+      }
+    } else if (status !== 200) {
+      console.log(`⚠️  Page returned status ${status}, but continuing anyway...`);
+    }
+  }
+
+  console.log('✅ Page loaded successfully');
+  
+  // Verify we're on the correct page
+  const currentUrl = page.url();
+  console.log(`🔍 Current page URL: ${currentUrl}`);
+  console.log(`🔍 Expected URL: ${targetUrl}`);
+  
+  // Get page title for debugging
+  const pageTitle = await page.title();
+  console.log(`📄 Page title: ${pageTitle}`);
+  
+  // Check if we're on the correct page
+  if (fallbackUrl && targetUrl !== fallbackUrl && !isMonthlyArchiveUrl(currentUrl)) {
+    console.log(`⚠️  Warning: Expected monthly URL but got different page.`);
+    console.log(`⚠️  This might mean the monthly URL format is incorrect or the page doesn't exist.`);
+  }
+  
+  // Wait for content to load (especially if it's JavaScript-rendered)
+  await sleep(5000, signal);
+  
+  // Try to wait for common selectors
+  try {
+    await page.waitForSelector('table, .earthquake, [class*="earthquake"], [id*="earthquake"]', { timeout: 10000 });
+    console.log('✅ Found earthquake-related elements');
+  } catch (e) {
+    console.log('⚠️  No specific earthquake selectors found, continuing with general parsing...');
+  }
+
+  // Get page HTML for parsing
+  console.log('📄 Extracting page content...');
+  let html: string;
+  
+  try {
+    html = await page.content();
+    console.log(`✅ Page content extracted (${html.length} characters)`);
+    
+    // Log a sample of the HTML for debugging (first 2000 chars)
+    console.log('📋 HTML sample (first 2000 chars):', html.substring(0, 2000));
+  } catch (contentError) {
+    console.error('❌ Failed to extract page content:', contentError);
+    throw new Error(`Failed to extract page content: ${contentError instanceof Error ? contentError.message : 'Unknown error'}`);
+  }
+
+  return {
+    url: targetUrl,
+    status: response ? response.status() : null,
+    html,
+    via: 'browser',
+  };
+}
+
+// Load a page in headless Chromium (from the shared browser pool) and return its rendered HTML.
+// If targetUrl returns 404 and a fallbackUrl is given, the fallback is loaded instead.
+// Aborting the signal closes the page, so the browser slot is freed straight away.
+export async function fetchPageWithBrowser(targetUrl: string, fallbackUrl?: string, pool: BrowserPool | null = getBrowserPool(), signal?: AbortSignal): Promise<FetchedPage> {
+  if (!pool) {
+    throw launchFailure(new Error('No browser launcher is configured (SCRAPER_BROWSER=none)'));
+  }
+  try {
+    return await pool.withPage((page) => loadPage(page, targetUrl, fallbackUrl, signal), { signal });
+  } catch (error) {
+    if (error instanceof BrowserLaunchError) {
+      throw launchFailure(error.launchError);
+    }
+    throw error;
+  }
+}
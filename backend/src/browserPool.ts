@@ -0,0 +1,352 @@
+import type { Browser, Page } from "puppeteer";
+import { abortable } from "./abort.js";
+import type { BrowserLauncher } from "./browser.js";
+import { recordBrowserCrash, recordBrowserLaunchFailure } from "./metrics.js";
+
+export interface BrowserPoolOptions {
+  // Browsers running at once; requests beyond their page capacity wait
+  maxBrowsers?: number;
+  // Pages open at once in one browser
+  maxPagesPerBrowser?: number;
+  // A browser is retired after serving this many pages...
+  maxUses?: number;
+  // ...or once it is this old
+  maxAgeMs?: number;
+  // Browsers idle this long are closed, down to minBrowsers (0 keeps them open)
+  idleTimeoutMs?: number;
+  // Browsers kept warm; see warm()
+  minBrowsers?: number;
+  // A request that can't get a page within this fails
+  acquireTimeoutMs?: number;
+  // Runs once on every new page (user agent, viewport, listeners); recycled pages keep it
+  setupPage?: (page: Page) => Promise<void>;
+}
+
+export interface BrowserPoolStats {
+  browsers: number;
+  activePages: number;
+  idlePages: number;
+  waiting: number;
+  launched: number;
+  retired: number;
+  crashed: number;
+}
+
+interface PooledBrowser {
+  browser: Browser;
+  launchedAt: number;
+  uses: number;
+  active: number;
+  idlePages: Page[];
+  // No new pages; closed once its active pages are released
+  retired: boolean;
+  crashed: boolean;
+  closing: boolean;
+  idleTimer: NodeJS.Timeout | null;
+}
+
+// Launching Chromium failed (as opposed to the page itself failing)
+export class BrowserLaunchError extends Error {
+  constructor(readonly launchError: unknown) {
+    super(launchError instanceof Error ? launchError.message : String(launchError));
+    this.name = 'BrowserLaunchError';
+  }
+}
+
+// Keeps headless browsers warm between scrapes instead of launching Chromium per
+// request. Pages are handed out up to a per-browser limit and recycled (blanked)
+// afterwards; browsers are retired after maxUses pages or maxAgeMs. If Chromium
+// crashes under a request, the request is retried once on a fresh browser.
+export class BrowserPool {
+  private browsers = new Set<PooledBrowser>();
+  private launching = 0;
+  private waiters: Array<() => void> = [];
+  private closed = false;
+  private launched = 0;
+  private retired = 0;
+  private crashed = 0;
+  private readonly options: Required<BrowserPoolOptions>;
+
+  constructor(private readonly launcher: BrowserLauncher, options: BrowserPoolOptions = {}) {
+    this.options = {
+      maxBrowsers: 2,
+      maxPagesPerBrowser: 2,
+      maxUses: 50,
+      maxAgeMs: 30 * 60 * 1000,
+      idleTimeoutMs: 5 * 60 * 1000,
+      minBrowsers: 0,
+      acquireTimeoutMs: 60 * 1000,
+      setupPage: async () => {},
+      ...options,
+    };
+  }
+
+  stats(): BrowserPoolStats {
+    let activePages = 0;
+    let idlePages = 0;
+    for (const entry of this.browsers) {
+      activePages += entry.active;
+      idlePages += entry.idlePages.length;
+    }
+    return {
+      browsers: this.browsers.size,
+      activePages,
+      idlePages,
+      waiting: this.waiters.length,
+      launched: this.launched,
+      retired: this.retired,
+      crashed: this.crashed,
+    };
+  }
+
+  // Run use() with a page from the pool. The page is recycled when use() succeeds
+  // and closed when it throws. Aborting the signal stops the wait for a page, or
+  // closes the page in use so whatever it is doing fails straight away.
+  async withPage<T>(use: (page: Page) => Promise<T>, { signal, retries = 1 }: { signal?: AbortSignal; retries?: number } = {}): Promise<T> {
+    const { entry, page } = await this.acquire(signal);
+    const closePage = () => {
+      page.close().catch(() => {});
+    };
+    signal?.addEventListener('abort', closePage, { once: true });
+    try {
+      const result = await abortable(use(page), signal);
+      signal?.removeEventListener('abort', closePage);
+      await this.release(entry, page, true);
+      return result;
+    } catch (error) {
+      signal?.removeEventListener('abort', closePage);
+      await this.release(entry, page, false);
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+      if (entry.crashed && retries > 0) {
+        console.warn('🔁 Browser crashed mid-request, retrying on a fresh browser...');
+        return this.withPage(use, { signal, retries: retries - 1 });
+      }
+      throw error;
+    }
+  }
+
+  // Launch browsers up to minBrowsers so the first scrape doesn't wait for Chromium
+  async warm(): Promise<void> {
+    while (!this.closed && this.browsers.size + this.launching < this.options.minBrowsers) {
+      const entry = await this.launch(false);
+      this.scheduleIdleClose(entry);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.wakeWaiters();
+    await Promise.all(Array.from(this.browsers).map((entry) => this.closeBrowser(entry)));
+  }
+
+  private async acquire(signal?: AbortSignal): Promise<{ entry: PooledBrowser; page: Page }> {
+    const deadline = Date.now() + this.options.acquireTimeoutMs;
+    for (;;) {
+      if (this.closed) {
+        throw new Error('Browser pool is closed');
+      }
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
+      let entry = this.available();
+      if (entry) {
+        entry.active++;
+        entry.uses++;
+        if (entry.idleTimer) {
+          clearTimeout(entry.idleTimer);
+          entry.idleTimer = null;
+        }
+      } else if (this.browsers.size + this.launching < this.options.maxBrowsers) {
+        entry = await this.launch(true);
+      }
+
+      if (entry) {
+        try {
+          const page = entry.idlePages.pop() || await this.newPage(entry);
+          return { entry, page };
+        } catch (error) {
+          entry.active--;
+          this.afterRelease(entry);
+          throw error;
+        }
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new Error(`Timed out after ${this.options.acquireTimeoutMs}ms waiting for a browser page`);
+      }
+      await this.waitForRelease(remaining, signal);
+    }
+  }
+
+  // A running browser with a free page slot, retiring any that are used up or too old
+  private available(): PooledBrowser | null {
+    for (const entry of this.browsers) {
+      if (!entry.retired && (entry.uses >= this.options.maxUses || Date.now() - entry.launchedAt >= this.options.maxAgeMs)) {
+        this.retire(entry);
+      }
+      if (!entry.retired && !entry.crashed && entry.active < this.options.maxPagesPerBrowser) {
+        return entry;
+      }
+    }
+    return null;
+  }
+
+  // A claimed browser comes with its first page slot taken, so the caller that
+  // launched it doesn't lose it to requests woken by the launch
+  private async launch(claim: boolean): Promise<PooledBrowser> {
+    this.launching++;
+    try {
+      const browser = await this.launcher();
+      const entry: PooledBrowser = {
+        browser,
+        launchedAt: Date.now(),
+        uses: claim ? 1 : 0,
+        active: claim ? 1 : 0,
+        idlePages: [],
+        retired: false,
+        crashed: false,
+        closing: false,
+        idleTimer: null,
+      };
+      browser.on('disconnected', () => this.handleDisconnect(entry));
+      this.browsers.add(entry);
+      this.launched++;
+      console.log(`🧭 Browser pool: launched browser ${this.launched} (${this.browsers.size} running)`);
+      return entry;
+    } catch (error) {
+      recordBrowserLaunchFailure();
+      throw new BrowserLaunchError(error);
+    } finally {
+      this.launching--;
+      this.wakeWaiters();
+    }
+  }
+
+  private async newPage(entry: PooledBrowser): Promise<Page> {
+    const page = await entry.browser.newPage();
+    await this.options.setupPage(page);
+    return page;
+  }
+
+  private async release(entry: PooledBrowser, page: Page, reusable: boolean): Promise<void> {
+    entry.active--;
+    // The error that brought us here may have arrived before the disconnect event
+    if (!entry.crashed && !entry.closing && !entry.browser.connected) {
+      this.handleDisconnect(entry);
+    }
+
+    if (!entry.crashed && !entry.closing) {
+      let recycled = false;
+      if (reusable && !entry.retired && !page.isClosed()) {
+        try {
+          await page.goto('about:blank');
+          entry.idlePages.push(page);
+          recycled = true;
+        } catch {
+          // Fall through and close it
+        }
+      }
+      if (!recycled) {
+        await page.close().catch(() => {});
+      }
+    }
+    this.afterRelease(entry);
+  }
+
+  private afterRelease(entry: PooledBrowser): void {
+    if (entry.active === 0 && !entry.crashed) {
+      if (entry.retired) {
+        void this.closeBrowser(entry);
+      } else if (entry.uses >= this.options.maxUses) {
+        this.retire(entry);
+      } else {
+        this.scheduleIdleClose(entry);
+      }
+    }
+    this.wakeWaiters();
+  }
+
+  private retire(entry: PooledBrowser): void {
+    entry.retired = true;
+    this.retired++;
+    if (entry.active === 0) {
+      void this.closeBrowser(entry);
+    }
+  }
+
+  private scheduleIdleClose(entry: PooledBrowser): void {
+    if (this.options.idleTimeoutMs <= 0 || entry.idleTimer) return;
+    entry.idleTimer = setTimeout(() => {
+      entry.idleTimer = null;
+      if (entry.active === 0 && this.browsers.size > this.options.minBrowsers) {
+        console.log('💤 Browser pool: closing idle browser');
+        void this.closeBrowser(entry);
+      }
+    }, this.options.idleTimeoutMs);
+    entry.idleTimer.unref();
+  }
+
+  private async closeBrowser(entry: PooledBrowser): Promise<void> {
+    if (entry.closing) return;
+    entry.closing = true;
+    this.browsers.delete(entry);
+    if (entry.idleTimer) {
+      clearTimeout(entry.idleTimer);
+      entry.idleTimer = null;
+    }
+    this.wakeWaiters();
+    try {
+      await entry.browser.close();
+    } catch (error) {
+      console.error('Error closing browser:', error);
+    }
+    this.replenish();
+  }
+
+  private handleDisconnect(entry: PooledBrowser): void {
+    if (entry.closing || entry.crashed) return;
+    entry.crashed = true;
+    this.crashed++;
+    recordBrowserCrash();
+    this.browsers.delete(entry);
+    if (entry.idleTimer) {
+      clearTimeout(entry.idleTimer);
+      entry.idleTimer = null;
+    }
+    console.error(`💥 Browser pool: a browser disconnected unexpectedly (${entry.active} page(s) in use)`);
+    this.wakeWaiters();
+    this.replenish();
+  }
+
+  // Keep minBrowsers warm after one is retired or crashes
+  private replenish(): void {
+    if (this.closed || this.browsers.size + this.launching >= this.options.minBrowsers) return;
+    this.warm().catch((error) => {
+      console.warn('⚠️  Browser pool: could not relaunch a warm browser:', error instanceof Error ? error.message : error);
+    });
+  }
+
+  // Resolves when a page may have been freed, on timeout, or when the signal aborts
+  // (the acquire loop then notices the signal)
+  private waitForRelease(timeoutMs: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const wake = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', wake);
+        this.waiters = this.waiters.filter((waiter) => waiter !== wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, timeoutMs);
+      signal?.addEventListener('abort', wake, { once: true });
+      this.waiters.push(wake);
+    });
+  }
+
+  // Waiters re-check the pool themselves, so waking all of them is safe
+  private wakeWaiters(): void {
+    for (const wake of [...this.waiters]) wake();
+  }
+}
@@ -0,0 +1,253 @@
+import * as cheerio from "cheerio";
+import type { Element } from "domhandler";
+import { sleep } from "./abort.js";
+import { CatalogEntry, EarthquakeCatalog, getCatalog } from "./catalog.js";
+import { envNumber } from "./env.js";
+import { fetchStaticPage } from "./fetcher.js";
+import { parsePHTDateTime } from "./phtTime.js";
+import type { EarthquakeBulletin, FetchedPage, IntensityReport } from "./types.js";
+
+// PHIVOLCS earthquake information bulletins: one page per event (and per revision),
+// linked from the listing rows. Labels sit in the first cell of a table row and the
+// value in the last, e.g. "Depth of Focus (Km) | : | 017".
+
+const cleanText = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// "..._B2F.html" is the second bulletin for an event, and the final one
+const BULLETIN_FILE_PATTERN = /_B(\d+)(F?)\.html?$/i;
+
+function parseNumberValue(value: string): number | null {
+  const match = value.match(/-?\d+(?:\.\d+)?/);
+  return match ? parseFloat(match[0]) : null;
+}
+
+function parseYesNo(value: string): boolean | null {
+  if (/^y(es)?\b/i.test(value)) return true;
+  if (/^no?\b/i.test(value)) return false;
+  return null;
+}
+
+// "Intensity IV - Surigao City; Dapa, SURIGAO DEL NORTE" lines, with an optional
+// "Instrumental Intensities:" heading splitting reported from instrumental readings
+function parseIntensities(lines: string[]): { reported: IntensityReport[]; instrumental: IntensityReport[] } {
+  const reported: IntensityReport[] = [];
+  const instrumental: IntensityReport[] = [];
+  let target = reported;
+
+  for (const line of lines) {
+    if (/^instrumental intensit/i.test(line)) {
+      target = instrumental;
+      continue;
+    }
+    if (/^reported intensit/i.test(line)) {
+      target = reported;
+      continue;
+    }
+    const match = line.match(/^intensity\s+([IVXL]+)\s*[-–:]\s*(.+)$/i);
+    if (match) {
+      target.push({
+        intensity: match[1].toUpperCase(),
+        locations: match[2].split(';').map(cleanText).filter(Boolean),
+      });
+    }
+  }
+  return { reported, instrumental };
+}
+
+// Label → value lines, from label/value table rows or "Label: value" paragraphs
+function extractFields($: cheerio.CheerioAPI): Map<string, string[]> {
+  const fields = new Map<string, string[]>();
+  const linesOf = (cell: cheerio.Cheerio<Element>) => {
+    const paragraphs = $(cell).find('p');
+    const texts = paragraphs.length > 0
+      ? paragraphs.map((_, p) => $(p).text()).get()
+      : $(cell).text().split('\n');
+    return texts.map(cleanText).filter(Boolean);
+  };
+
+  $('tr').each((_, row) => {
+    const cells = $(row).children('td, th');
+    if (cells.length < 2) return;
+    const label = cleanText(cells.first().text()).replace(/\s*[:=]$/, '').toLowerCase();
+    const value = linesOf(cells.last()).filter(line => !/^[:=]$/.test(line));
+    if (label && value.length > 0 && !fields.has(label)) {
+      fields.set(label, value);
+    }
+  });
+
+  $('p').each((_, p) => {
+    const match = cleanText($(p).text()).match(/^([A-Za-z/ ()]+?)\s*[:=]\s*(.+)$/);
+    if (match && !fields.has(match[1].toLowerCase())) {
+      fields.set(match[1].toLowerCase(), [match[2]]);
+    }
+  });
+
+  return fields;
+}
+
+// Parse a bulletin page into structured fields. Missing fields are null rather
+// than guessed, so a partially parsed bulletin never contradicts the listing.
+export function parseBulletinHtml(html: string, url: string, fetchedAt: number = Date.now()): EarthquakeBulletin {
+  const $ = cheerio.load(html);
+  const fields = extractFields($);
+  const field = (pattern: RegExp) => {
+    for (const [label, value] of fields) {
+      if (pattern.test(label)) return value;
+    }
+    return undefined;
+  };
+  const first = (pattern: RegExp) => field(pattern)?.[0] ?? null;
+
+  const bodyText = cleanText($('body').text());
+  const fileMatch = url.match(BULLETIN_FILE_PATTERN);
+  const numberMatch = bodyText.match(/information\s+no\.?\s*:?\s*(\d+)/i);
+
+  const dateTime = first(/^date\s*\/\s*time|^date and time|^origin time/);
+  const issuedOn = first(/^issued on/);
+  const location = first(/^location/);
+  const coordinates = location?.match(/(\d+(?:\.\d+)?)\s*°?\s*N\s*,\s*(\d+(?:\.\d+)?)\s*°?\s*E/i);
+  const dashIndex = location?.indexOf(' - ') ?? -1;
+  const magnitude = first(/^magnitude/);
+  const depth = first(/^depth/);
+  const expectingDamage = first(/^expecting damage/);
+  const expectingAftershocks = first(/^expecting aftershock/);
+
+  const intensities = parseIntensities([
+    ...(field(/^reported intensit/) || []),
+    ...(field(/^instrumental intensit/) ? ['Instrumental Intensities:', ...field(/^instrumental intensit/)] : []),
+  ]);
+
+  return {
+    url,
+    fetchedAt,
+    number: numberMatch ? parseInt(numberMatch[1], 10) : fileMatch ? parseInt(fileMatch[1], 10) : null,
+    final: fileMatch ? fileMatch[2] !== '' : /\bfinal\b/i.test(bodyText),
+    time: dateTime ? parsePHTDateTime(dateTime) : null,
+    magnitude: magnitude ? parseNumberValue(magnitude) : null,
+    depth: depth ? parseNumberValue(depth) : null,
+    latitude: coordinates ? parseFloat(coordinates[1]) : null,
+    longitude: coordinates ? parseFloat(coordinates[2]) : null,
+    place: location && dashIndex > 0 ? cleanText(location.substring(dashIndex + 3)) : null,
+    origin: first(/^origin$/),
+    reportedIntensities: intensities.reported,
+    instrumentalIntensities: intensities.instrumental,
+    expectingDamage: expectingDamage ? parseYesNo(expectingDamage) : null,
+    expectingAftershocks: expectingAftershocks ? parseYesNo(expectingAftershocks) : null,
+    issuedAt: issuedOn ? parsePHTDateTime(issuedOn) : null,
+  };
+}
+
+// An entry needs its bulletin (re)fetched when it links to one we haven't parsed yet;
+// a revised event links to a new bulletin page
+export function needsBulletin(entry: CatalogEntry): boolean {
+  return !!entry.url && entry.bulletin?.url !== entry.url;
+}
+
+export interface BulletinFetcherOptions {
+  // Pause between bulletin requests, to stay polite to PHIVOLCS
+  delayMs?: number;
+  // Bulletins waiting beyond this are dropped (they are fetched on demand instead)
+  maxQueued?: number;
+  // Only quakes newer than this are followed automatically after a scrape (0 disables)
+  maxEventAgeMs?: number;
+  fetchPage?: (url: string) => Promise<FetchedPage>;
+}
+
+interface PendingFetch {
+  started: boolean;
+  promise: Promise<CatalogEntry>;
+}
+
+// Follows bulletin links one at a time with a delay between requests and stores
+// the parsed bulletins on their catalog entries.
+export class BulletinFetcher {
+  private queue: Promise<unknown> = Promise.resolve();
+  private pending = new Map<string, PendingFetch>();
+  private readonly options: Required<BulletinFetcherOptions>;
+
+  constructor(private readonly catalog: EarthquakeCatalog = getCatalog(), options: BulletinFetcherOptions = {}) {
+    this.options = {
+      delayMs: 2000,
+      maxQueued: 50,
+      maxEventAgeMs: 7 * 24 * 60 * 60 * 1000,
+      fetchPage: (url) => fetchStaticPage(url),
+      ...options,
+    };
+  }
+
+  get queued(): number {
+    return this.pending.size;
+  }
+
+  // Queue bulletins for recently scraped entries; resolves once they have all been tried
+  async enqueue(entries: CatalogEntry[]): Promise<void> {
+    const cutoff = Date.now() - this.options.maxEventAgeMs;
+    const jobs: Promise<CatalogEntry>[] = [];
+    for (const entry of entries) {
+      if (this.options.maxEventAgeMs <= 0 || entry.time < cutoff || !needsBulletin(entry)) continue;
+      if (!this.pending.has(entry.id) && this.pending.size >= this.options.maxQueued) {
+        console.warn(`⚠️  Bulletin queue full, skipping the rest of this batch`);
+        break;
+      }
+      jobs.push(this.fetch(entry));
+    }
+    await Promise.all(jobs);
+  }
+
+  // Fetch (or join the pending fetch of) one entry's bulletin. Failures are logged
+  // and the entry is returned unchanged, so they are retried next time. Immediate
+  // fetches (a user opening an event) skip the queue instead of waiting behind it.
+  fetch(entry: CatalogEntry, { immediate = false } = {}): Promise<CatalogEntry> {
+    const pending = this.pending.get(entry.id);
+    if (pending && (pending.started || !immediate)) return pending.promise;
+    if (!needsBulletin(entry)) return Promise.resolve(entry);
+
+    let requested = false;
+    const job = { started: false } as PendingFetch;
+    const run = async () => {
+      // An immediate fetch may have overtaken this one while it was queued
+      const active = this.pending.get(entry.id);
+      if (active && active !== job) return active.promise;
+      job.started = true;
+      const current = this.catalog.get(entry.id) || entry;
+      if (!needsBulletin(current)) return current;
+
+      requested = true;
+      try {
+        const page = await this.options.fetchPage(current.url);
+        if (page.status !== 200) {
+          throw new Error(`HTTP ${page.status ?? 'error'}`);
+        }
+        const bulletin = parseBulletinHtml(page.html, current.url);
+        console.log(`📰 Bulletin ${bulletin.number ?? '?'}${bulletin.final ? ' (final)' : ''} for ${entry.id}: ${bulletin.reportedIntensities.length} reported intensities`);
+        return (await this.catalog.setBulletin(entry.id, bulletin)) || current;
+      } catch (error) {
+        console.warn(`⚠️  Could not fetch bulletin ${current.url}:`, error instanceof Error ? error.message : error);
+        return current;
+      }
+    };
+
+    this.pending.set(entry.id, job);
+    job.promise = (immediate ? run() : this.queue.then(run)).finally(() => {
+      if (this.pending.get(entry.id) === job) this.pending.delete(entry.id);
+    });
+    if (!immediate) {
+      // The next queued request waits out the delay; this caller doesn't
+      this.queue = job.promise.then(() => requested ? sleep(this.options.delayMs) : undefined);
+    }
+    return job.promise;
+  }
+}
+
+let defaultFetcher: BulletinFetcher | null = null;
+
+export function getBulletinFetcher(): BulletinFetcher {
+  if (!defaultFetcher) {
+    defaultFetcher = new BulletinFetcher(getCatalog(), {
+      delayMs: envNumber('BULLETIN_DELAY_MS', 2000),
+      maxQueued: envNumber('BULLETIN_MAX_QUEUED', 50),
+      maxEventAgeMs: envNumber('BULLETIN_MAX_AGE_MS', 7 * 24 * 60 * 60 * 1000),
+    });
+  }
+  return defaultFetcher;
+}
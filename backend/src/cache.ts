@@ -0,0 +1,139 @@
+import { abortable } from "./abort.js";
+import { recordCacheLookup } from "./metrics.js";
+
+export type CacheState = 'hit' | 'stale' | 'miss';
+
+export interface TtlCacheOptions {
+  name: string;
+  // Entries are fresh for ttlMs after they are stored...
+  ttlMs: number;
+  // ...then served stale for up to staleMs more while one background refresh runs
+  staleMs: number;
+  maxEntries?: number;
+}
+
+export interface CacheResult<T> {
+  value: T;
+  state: CacheState;
+  storedAt: number;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+}
+
+// A load in progress and who is waiting for it
+interface Loading<T> {
+  promise: Promise<CacheEntry<T>>;
+  controller: AbortController;
+  // Callers that can cancel; the load is aborted once all of them have
+  waiters: number;
+  // A caller without a signal (or a background refresh) keeps it running regardless
+  pinned: boolean;
+}
+
+// In-memory TTL cache with stale-while-revalidate and single-flight loading:
+// concurrent lookups of the same missing or stale key share one load.
+// Failed loads are not cached. A caller whose signal aborts stops waiting at
+// once; the shared load itself is only aborted when every waiter has gone.
+export class TtlCache<T> {
+  private entries = new Map<string, CacheEntry<T>>();
+  private loading = new Map<string, Loading<T>>();
+
+  constructor(private readonly options: TtlCacheOptions) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get ttlMs(): number {
+    return this.options.ttlMs;
+  }
+
+  get staleMs(): number {
+    return this.options.staleMs;
+  }
+
+  async get(key: string, load: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<CacheResult<T>> {
+    const entry = this.entries.get(key);
+    const age = entry ? Date.now() - entry.storedAt : Infinity;
+
+    if (entry && age < this.options.ttlMs) {
+      recordCacheLookup(this.options.name, 'hit');
+      return { value: entry.value, state: 'hit', storedAt: entry.storedAt };
+    }
+
+    if (entry && age < this.options.ttlMs + this.options.staleMs) {
+      recordCacheLookup(this.options.name, 'stale');
+      this.load(key, load).catch((error) => {
+        console.warn(`⚠️  ${this.options.name}: background refresh of ${key} failed:`, error instanceof Error ? error.message : error);
+      });
+      return { value: entry.value, state: 'stale', storedAt: entry.storedAt };
+    }
+
+    recordCacheLookup(this.options.name, 'miss');
+    const loaded = await this.load(key, load, signal);
+    return { value: loaded.value, state: 'miss', storedAt: loaded.storedAt };
+  }
+
+  // Drop one key, or everything
+  invalidate(key?: string): void {
+    if (key === undefined) {
+      this.entries.clear();
+    } else {
+      this.entries.delete(key);
+    }
+  }
+
+  private load(key: string, load: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<CacheEntry<T>> {
+    const loading = this.loading.get(key) || this.start(key, load);
+    if (!signal) {
+      loading.pinned = true;
+      return loading.promise;
+    }
+
+    loading.waiters++;
+    const leave = () => {
+      loading.waiters--;
+      if (loading.waiters === 0 && !loading.pinned) {
+        // Later lookups start afresh rather than joining a cancelled load
+        if (this.loading.get(key) === loading) this.loading.delete(key);
+        loading.controller.abort(signal.reason);
+      }
+    };
+    if (signal.aborted) {
+      leave();
+    } else {
+      signal.addEventListener('abort', leave, { once: true });
+      loading.promise.catch(() => {}).finally(() => signal.removeEventListener('abort', leave));
+    }
+    return abortable(loading.promise, signal);
+  }
+
+  private start(key: string, load: (signal: AbortSignal) => Promise<T>): Loading<T> {
+    const controller = new AbortController();
+    const promise = load(controller.signal)
+      .then((value) => {
+        const entry = { value, storedAt: Date.now() };
+        this.entries.delete(key); // re-insert so Map order tracks recency
+        this.entries.set(key, entry);
+        this.evict();
+        return entry;
+      })
+      .finally(() => {
+        if (this.loading.get(key) === loading) this.loading.delete(key);
+      });
+    const loading: Loading<T> = { promise, controller, waiters: 0, pinned: false };
+    this.loading.set(key, loading);
+    return loading;
+  }
+
+  private evict(): void {
+    const maxEntries = this.options.maxEntries ?? 500;
+    while (this.entries.size > maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+}
@@ -0,0 +1,314 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { EarthquakeFilters, matchesFilters } from "./filters.js";
+import { parsePlace } from "./location.js";
+import { inferQuality } from "./quality.js";
+import { toPHTCalendar } from "./phtTime.js";
+import type { EarthquakeBulletin, PHIVOLCSEarthquake } from "./types.js";
+
+// Serverless functions can only write to the temp directory, so there the catalog
+// only lives as long as the function instance
+export const DEFAULT_CATALOG_PATH = process.env.CATALOG_PATH
+  || (process.env.VERCEL ? path.join(os.tmpdir(), 'catalog.jsonl') : path.resolve('data', 'catalog.jsonl'));
+
+// A revision matches an existing event when its origin time and epicenter are this
+// close, and it has the same bulletin link or origin minute
+const REVISION_TIME_TOLERANCE_MS = 2 * 60 * 1000;
+const REVISION_DISTANCE_TOLERANCE_DEG = 0.5;
+
+const originMinute = (time: number) => Math.floor(time / 60000);
+
+// Values an event had before PHIVOLCS revised it
+export interface CatalogRevision {
+  magnitude: number;
+  latitude: number;
+  longitude: number;
+  depth: number;
+  place: string;
+  replacedAt: number;
+}
+
+export interface CatalogEntry extends PHIVOLCSEarthquake {
+  firstSeen: number;
+  lastSeen: number;
+  lastUpdated: number;
+  // Content-derived ids this event has been published under (see eventId.ts)
+  aliases: string[];
+  revisions: CatalogRevision[];
+  // Parsed from the page at `url`, once fetched (see bulletin.ts)
+  bulletin?: EarthquakeBulletin;
+}
+
+export interface UpsertResult {
+  created: CatalogEntry[];
+  updated: CatalogEntry[];
+  unchanged: number;
+}
+
+export interface CatalogQuery extends EarthquakeFilters {
+  year?: number;
+  month?: number;
+  // Origin time bounds (UTC epoch ms), start inclusive and end exclusive
+  start?: number;
+  end?: number;
+}
+
+function hasChanged(entry: CatalogEntry, eq: PHIVOLCSEarthquake): boolean {
+  return entry.magnitude !== eq.magnitude ||
+    entry.latitude !== eq.latitude ||
+    entry.longitude !== eq.longitude ||
+    entry.depth !== eq.depth ||
+    entry.place !== eq.place;
+}
+
+// API path of an event's detail resource (bulletin, revisions)
+export function detailPath(id: string): string {
+  return `/api/earthquakes/${encodeURIComponent(id)}`;
+}
+
+// Strip catalog bookkeeping for API responses
+export function toEarthquake(entry: CatalogEntry): PHIVOLCSEarthquake & { firstSeen: number; lastUpdated: number; bulletin?: EarthquakeBulletin } {
+  const { aliases, revisions, lastSeen, ...earthquake } = entry;
+  return { ...earthquake, detail: detailPath(entry.id) };
+}
+
+// Local earthquake catalog persisted as JSON lines (one event per line).
+//
+// Scrape results are upserted by stable event identity. An event keeps the id it
+// was first seen under; when PHIVOLCS revises its magnitude or location the new
+// content-derived id is recorded as an alias and the old values are kept in
+// `revisions`.
+export class EarthquakeCatalog {
+  private entries = new Map<string, CatalogEntry>();
+  private aliasIndex = new Map<string, string>();
+  // Canonical ids by origin minute and by bulletin link, for finding revisions
+  private minuteIndex = new Map<number, Set<string>>();
+  private urlIndex = new Map<string, string>();
+  private loading: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string = DEFAULT_CATALOG_PATH) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  // Concurrent callers share one read, so nothing runs against a half-loaded catalog
+  load(): Promise<void> {
+    if (!this.loading) {
+      // A failed read is retried by the next caller
+      this.loading = this.read().catch((error) => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  private async read(): Promise<void> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+        console.log(`📚 No catalog at ${this.filePath} yet, starting empty`);
+        return;
+      }
+      throw error;
+    }
+
+    const lines = content.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].trim();
+      if (!line) continue;
+      try {
+        this.index(JSON.parse(line) as CatalogEntry);
+      } catch (error) {
+        console.warn(`⚠️  Skipping unreadable catalog line ${i + 1}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    console.log(`📚 Loaded ${this.entries.size} earthquakes from ${this.filePath}`);
+  }
+
+  get(id: string): CatalogEntry | undefined {
+    const canonicalId = this.aliasIndex.get(id) || id;
+    return this.entries.get(canonicalId);
+  }
+
+  // Entries in a PHT calendar period and/or time range that match the filters, newest first
+  query({ year, month, start, end, ...filters }: CatalogQuery = {}): CatalogEntry[] {
+    const results: CatalogEntry[] = [];
+    for (const entry of this.entries.values()) {
+      if (start !== undefined && entry.time < start) continue;
+      if (end !== undefined && entry.time >= end) continue;
+      if (year || month) {
+        const calendar = toPHTCalendar(entry.time);
+        if (year && calendar.year !== year) continue;
+        if (month && calendar.month !== month) continue;
+      }
+      if (!matchesFilters(entry, filters)) continue;
+      results.push(entry);
+    }
+    return results.sort((a, b) => b.time - a.time);
+  }
+
+  async upsert(earthquakes: PHIVOLCSEarthquake[], observedAt: number = Date.now()): Promise<UpsertResult> {
+    await this.load();
+    const result: UpsertResult = { created: [], updated: [], unchanged: 0 };
+    const touched = new Set<string>();
+
+    for (const eq of earthquakes) {
+      const existing = this.get(eq.id) || this.findRevisionOf(eq, touched);
+
+      if (!existing) {
+        const entry: CatalogEntry = {
+          ...eq,
+          firstSeen: observedAt,
+          lastSeen: observedAt,
+          lastUpdated: observedAt,
+          aliases: [eq.id],
+          revisions: [],
+        };
+        this.index(entry);
+        touched.add(entry.id);
+        result.created.push(entry);
+        continue;
+      }
+
+      touched.add(existing.id);
+      existing.lastSeen = Math.max(existing.lastSeen, observedAt);
+      if (!existing.aliases.includes(eq.id)) {
+        existing.aliases.push(eq.id);
+        this.aliasIndex.set(eq.id, existing.id);
+      }
+      // Observed before the entry was last revised (a replayed snapshot): never roll it back
+      if (observedAt < existing.lastUpdated) {
+        result.unchanged++;
+        continue;
+      }
+      // A reissued bulletin gets a new page; the old parsed one stays until it is refetched
+      if (eq.url && existing.url !== eq.url) {
+        existing.url = eq.url;
+        this.urlIndex.set(eq.url, existing.id);
+      }
+
+      if (hasChanged(existing, eq)) {
+        existing.revisions.push({
+          magnitude: existing.magnitude,
+          latitude: existing.latitude,
+          longitude: existing.longitude,
+          depth: existing.depth,
+          place: existing.place,
+          replacedAt: observedAt,
+        });
+        existing.magnitude = eq.magnitude;
+        existing.latitude = eq.latitude;
+        existing.longitude = eq.longitude;
+        existing.depth = eq.depth;
+        existing.place = eq.place;
+        existing.location = eq.location ?? parsePlace(eq.place, eq);
+        existing.quality = eq.quality ?? inferQuality(eq);
+        this.unindexTime(existing);
+        existing.time = eq.time;
+        this.indexTime(existing);
+        existing.lastUpdated = observedAt;
+        result.updated.push(existing);
+      } else {
+        result.unchanged++;
+      }
+    }
+
+    await this.save();
+    return result;
+  }
+
+  async setBulletin(id: string, bulletin: EarthquakeBulletin): Promise<CatalogEntry | undefined> {
+    await this.load();
+    const entry = this.get(id);
+    if (!entry) return undefined;
+    entry.bulletin = bulletin;
+    await this.save();
+    return entry;
+  }
+
+  private index(entry: CatalogEntry): void {
+    // Entries stored before places were parsed
+    if (entry.location === undefined) {
+      entry.location = parsePlace(entry.place, entry);
+    }
+    // ...and before records carried quality flags
+    if (entry.quality === undefined) {
+      entry.quality = inferQuality(entry);
+    }
+    this.entries.set(entry.id, entry);
+    for (const alias of entry.aliases || [entry.id]) {
+      this.aliasIndex.set(alias, entry.id);
+    }
+    if (entry.url) {
+      this.urlIndex.set(entry.url, entry.id);
+    }
+    this.indexTime(entry);
+  }
+
+  private indexTime(entry: CatalogEntry): void {
+    const minute = originMinute(entry.time);
+    const ids = this.minuteIndex.get(minute) || new Set<string>();
+    ids.add(entry.id);
+    this.minuteIndex.set(minute, ids);
+  }
+
+  private unindexTime(entry: CatalogEntry): void {
+    const minute = originMinute(entry.time);
+    const ids = this.minuteIndex.get(minute);
+    ids?.delete(entry.id);
+    if (ids?.size === 0) this.minuteIndex.delete(minute);
+  }
+
+  // An unseen id can still be a known event whose magnitude or location was revised.
+  // Only events with the same bulletin link or origin minute are candidates, so an
+  // aftershock a minute later and a few km away stays its own event. Events already
+  // matched in the current batch are skipped so two distinct quakes in the same
+  // scrape never collapse into one.
+  private findRevisionOf(eq: PHIVOLCSEarthquake, exclude: Set<string>): CatalogEntry | undefined {
+    const candidates = new Set(this.minuteIndex.get(originMinute(eq.time)));
+    const byUrl = eq.url && this.urlIndex.get(eq.url);
+    if (byUrl) candidates.add(byUrl);
+
+    let best: CatalogEntry | undefined;
+    let bestDistance = Infinity;
+    for (const id of candidates) {
+      const entry = this.entries.get(id);
+      if (!entry || exclude.has(entry.id)) continue;
+      if (Math.abs(entry.time - eq.time) > REVISION_TIME_TOLERANCE_MS) continue;
+      const distance = Math.hypot(entry.latitude - eq.latitude, entry.longitude - eq.longitude);
+      if (distance <= REVISION_DISTANCE_TOLERANCE_DEG && distance < bestDistance) {
+        best = entry;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  }
+
+  // Rewrite the whole file atomically; saves are serialized so they never interleave
+  private save(): Promise<void> {
+    const run = async () => {
+      const lines = Array.from(this.entries.values(), (entry) => JSON.stringify(entry));
+      const tmpPath = `${this.filePath}.tmp`;
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.writeFile(tmpPath, lines.join('\n') + (lines.length ? '\n' : ''), 'utf8');
+      await fs.rename(tmpPath, this.filePath);
+    };
+    this.writeQueue = this.writeQueue.then(run, run);
+    return this.writeQueue;
+  }
+}
+
+let defaultCatalog: EarthquakeCatalog | null = null;
+
+export function getCatalog(): EarthquakeCatalog {
+  if (!defaultCatalog) {
+    defaultCatalog = new EarthquakeCatalog();
+  }
+  return defaultCatalog;
+}
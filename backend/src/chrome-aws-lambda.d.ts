@@ -0,0 +1,14 @@
+// chrome-aws-lambda is only installed in the Vercel deployment (root package.json),
+// so the backend declares the part of its API that launchServerlessChromium uses
+declare module "chrome-aws-lambda" {
+  import type { Viewport } from "puppeteer-core";
+
+  const chromium: {
+    args: string[];
+    defaultViewport: Viewport;
+    // Unpacks the bundled Chromium on first use; null outside Lambda
+    executablePath: Promise<string | null>;
+    headless: boolean;
+  };
+  export default chromium;
+}
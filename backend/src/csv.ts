@@ -0,0 +1,43 @@
+import type { CatalogEntry } from "./catalog.js";
+import { toPHTISOString } from "./phtTime.js";
+
+// Column order is part of the export contract: only ever append new columns
+export const CSV_COLUMNS = [
+  'id',
+  'time_utc',
+  'time_pht',
+  'latitude',
+  'longitude',
+  'depth_km',
+  'magnitude',
+  'place',
+  'url',
+  'first_seen_utc',
+  'last_updated_utc',
+] as const;
+
+// Quote a field when it contains a delimiter, quote or line break (RFC 4180)
+function escapeField(value: string | number | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const toUTCString = (time: number) => new Date(time).toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+export function toCSV(entries: CatalogEntry[]): string {
+  const rows = entries.map((entry) => [
+    entry.id,
+    toUTCString(entry.time),
+    toPHTISOString(entry.time),
+    entry.latitude,
+    entry.longitude,
+    entry.depth,
+    entry.magnitude,
+    entry.place,
+    entry.url,
+    toUTCString(entry.firstSeen),
+    toUTCString(entry.lastUpdated),
+  ].map(escapeField).join(','));
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
@@ -0,0 +1,327 @@
+import { createHash } from "crypto";
+import { abortable, withTimeout } from "./abort.js";
+import { getBulletinFetcher } from "./bulletin.js";
+import { CatalogEntry, CatalogQuery, CatalogRevision, getCatalog, toEarthquake } from "./catalog.js";
+import { toCSV } from "./csv.js";
+import { envNumber } from "./env.js";
+import { EarthquakeFilters, paginate, Pagination, parseFilters, parsePagination } from "./filters.js";
+import { toGeoJSON } from "./geojson.js";
+import { ingestCached, ingestRange, IngestResult, RangeMonthStatus } from "./ingest.js";
+import { parseRangeBoundary, phtMonthsBetween, phtPeriodRange, toPHTCalendar } from "./phtTime.js";
+import { toQuakeML } from "./quakeml.js";
+import { monthlyArchiveUrl } from "./source.js";
+import { getSourceFormatMonitor, pageKind } from "./sourceFormat.js";
+
+// The /api/earthquakes request core shared by the Express server and the Vercel
+// function: parse and validate the query, scrape what it needs into the catalog,
+// and render the matching earthquakes. Framework-free on purpose; the adapters
+// only translate their request/response objects.
+
+// "Latest" requests are served from catalog entries newer than this
+const LATEST_WINDOW_MS = 31 * 24 * 60 * 60 * 1000;
+
+// start/end queries fan out to one archive page per month, so keep them bounded
+const MAX_RANGE_MONTHS = 24;
+const MAX_RANGE_MS = MAX_RANGE_MONTHS * 31 * 24 * 60 * 60 * 1000;
+
+const SCRAPE_TIMEOUT_MS = 180000;
+
+// Unknown ids refresh the latest page at most this often, so a run of bogus ids
+// can't turn into a run of PHIVOLCS scrapes
+const DETAIL_REFRESH_INTERVAL_MS = envNumber('DETAIL_REFRESH_INTERVAL_MS', 60 * 1000);
+
+export const RESPONSE_FORMATS = ['json', 'geojson', 'quakeml', 'csv'] as const;
+export type ResponseFormat = typeof RESPONSE_FORMATS[number];
+
+const FORMAT_ALIASES: Record<string, ResponseFormat> = { xml: 'quakeml' };
+
+// Content-Type of each format
+export const FORMAT_MEDIA_TYPES: Record<ResponseFormat, string> = {
+  json: 'application/json',
+  geojson: 'application/geo+json',
+  quakeml: 'application/xml',
+  csv: 'text/csv',
+};
+
+// Accept values that select each format. Browsers ask for text/html first (with
+// application/xml at a lower q), and "*/*" picks the first entry: both get JSON,
+// so QuakeML is only served to clients that ask for XML over HTML.
+const NEGOTIATED_TYPES: Array<[string, ResponseFormat]> = [
+  ['text/html', 'json'],
+  ['application/json', 'json'],
+  ['application/geo+json', 'geojson'],
+  ['application/vnd.quakeml+xml', 'quakeml'],
+  ['application/xml', 'quakeml'],
+  ['text/csv', 'csv'],
+];
+
+// Rejected query; the adapters answer with 400 { error: title, message }
+export class BadRequestError extends Error {
+  constructor(readonly title: string, message: string) {
+    super(message);
+    this.name = 'BadRequestError';
+  }
+}
+
+// Kinds of PHIVOLCS page (see pageKind) a request is answered from. The current
+// month's archive may not exist yet, so it can also come from the latest page.
+function requestPages({ year, month, range }: EarthquakesRequest): string[] {
+  const months = range
+    ? phtMonthsBetween(range.start, Math.min(range.end, Date.now()))
+    : (year && month ? [{ year, month }] : []);
+  if (months.length === 0) return ['latest'];
+
+  const now = toPHTCalendar(Date.now());
+  const pages = new Set<string>();
+  for (const { year: pageYear, month: pageMonth } of months) {
+    pages.add(pageKind(monthlyArchiveUrl(pageYear, pageMonth)));
+    if (pageYear === now.year && pageMonth === now.month) pages.add('latest');
+  }
+  return Array.from(pages);
+}
+
+// Tells clients (on successful and failed responses alike) that PHIVOLCS changed
+// the markup of the pages this request reads, so an empty or catalog-only answer
+// isn't mistaken for a quiet day
+export function sourceFormatHeaders(request?: EarthquakesRequest): Record<string, string> {
+  if (!request) return {};
+  const monitor = getSourceFormatMonitor();
+  return requestPages(request).some((page) => monitor.isChanged(page)) ? { 'X-Source-Format': 'changed' } : {};
+}
+
+export interface EarthquakesRequest {
+  year?: number;
+  month?: number;
+  range?: { start: number; end: number };
+  filters: EarthquakeFilters;
+  pagination: Pagination;
+  format: ResponseFormat;
+}
+
+export interface EarthquakesResponse {
+  contentType: string;
+  body: string;
+  etag: string;
+  headers: Record<string, string>;
+}
+
+export type EarthquakeDetail = ReturnType<typeof toEarthquake> & { revisions: CatalogRevision[] };
+
+export interface RequestInput {
+  query: Record<string, unknown>;
+  // "geojson" for /api/earthquakes.geojson
+  pathExtension?: string;
+  // Picks the best of the given media types for the Accept header (false if none)
+  accepts: (types: string[]) => string | false;
+}
+
+export interface LoadOptions {
+  // Absolute URL of the request, echoed in GeoJSON metadata
+  selfUrl: string;
+  // True when something else keeps the latest page in the catalog (the background poller)
+  latestIsFresh: boolean;
+  ingestLatest: (signal?: AbortSignal) => Promise<IngestResult>;
+  // Aborts when nobody wants the response any more (the client disconnected)
+  signal?: AbortSignal;
+}
+
+// Output format from the path extension (/api/earthquakes.geojson), ?format=, or the Accept header
+function resolveFormat({ query, pathExtension, accepts }: RequestInput): ResponseFormat {
+  const requested = pathExtension || (typeof query.format === 'string' ? query.format : undefined);
+
+  if (requested === undefined) {
+    const accepted = accepts(NEGOTIATED_TYPES.map(([type]) => type));
+    return NEGOTIATED_TYPES.find(([type]) => type === accepted)?.[1] || 'json';
+  }
+
+  const format = FORMAT_ALIASES[requested] || requested;
+  if (!RESPONSE_FORMATS.includes(format as ResponseFormat)) {
+    throw new Error(`Unsupported format "${requested}", expected one of: ${RESPONSE_FORMATS.join(', ')}`);
+  }
+  return format as ResponseFormat;
+}
+
+export function parseEarthquakesRequest(input: RequestInput): EarthquakesRequest {
+  const { query } = input;
+
+  // Get year and month from query parameters
+  const yearParam = query.year ? parseInt(query.year as string) : undefined;
+  const monthParam = query.month ? parseInt(query.month as string) : undefined;
+
+  // Validate year and month
+  const year = yearParam && !isNaN(yearParam) && yearParam >= 2000 && yearParam <= 2100 ? yearParam : undefined;
+  const month = monthParam && !isNaN(monthParam) && monthParam >= 1 && monthParam <= 12 ? monthParam : undefined;
+
+  // Magnitude/depth/area filters and limit/offset, validated before any scraping
+  let filters: EarthquakeFilters;
+  let pagination: Pagination;
+  let format: ResponseFormat;
+  try {
+    filters = parseFilters(query);
+    pagination = parsePagination(query);
+    format = resolveFormat(input);
+  } catch (error) {
+    throw new BadRequestError('Invalid query', error instanceof Error ? error.message : String(error));
+  }
+
+  // Optional date range (YYYY-MM-DD as PHT days, or full ISO timestamps); takes precedence over year/month
+  const startParam = typeof query.start === 'string' ? query.start : undefined;
+  const endParam = typeof query.end === 'string' ? query.end : undefined;
+  let range: { start: number; end: number } | undefined;
+
+  if (startParam || endParam) {
+    const start = startParam ? parseRangeBoundary(startParam, 'start') : null;
+    const end = endParam ? parseRangeBoundary(endParam, 'end') : Date.now();
+    let invalid: string | null = null;
+    if (start === null) invalid = `Invalid or missing start date "${startParam ?? ''}", expected YYYY-MM-DD or an ISO timestamp`;
+    else if (end === null) invalid = `Invalid end date "${endParam}", expected YYYY-MM-DD or an ISO timestamp`;
+    else if (start > Date.now()) invalid = 'The date range is in the future';
+    else if (start >= end) invalid = 'start must be before end';
+    else if (end - start > MAX_RANGE_MS) invalid = `Date ranges are limited to ${MAX_RANGE_MONTHS} months`;
+
+    if (invalid) {
+      throw new BadRequestError('Invalid date range', invalid);
+    }
+    range = { start, end };
+    console.log(`📅 Filtering by range: ${new Date(start).toISOString()} → ${new Date(end).toISOString()}`);
+  } else if (year && phtPeriodRange(year, month).start > Date.now()) {
+    throw new BadRequestError('Invalid date range', `${month ? `${year}-${String(month).padStart(2, '0')}` : year} is in the future`);
+  } else if (year && !month) {
+    // A whole year is just a 12-month range; the latest page alone covers only a few weeks
+    const period = phtPeriodRange(year);
+    range = { start: period.start, end: Math.min(period.end, Date.now()) };
+    console.log(`📅 Filtering by: Year=${year} (all months)`);
+  } else if (year || month) {
+    console.log(`📅 Filtering by: Year=${year}, Month=${month}`);
+  }
+
+  return { year, month, range, filters, pagination, format };
+}
+
+// Filter matches are counted before pagination so clients can page through them
+export function renderEarthquakes(entries: CatalogEntry[], pagination: Pagination, format: ResponseFormat, selfUrl: string, headers: Record<string, string> = {}): EarthquakesResponse {
+  const page = paginate(entries, pagination);
+  let body: string;
+  switch (format) {
+    case 'geojson':
+      body = JSON.stringify(toGeoJSON(page, selfUrl));
+      break;
+    case 'quakeml':
+      body = toQuakeML(page);
+      break;
+    case 'csv':
+      body = toCSV(page);
+      break;
+    default:
+      body = JSON.stringify(page.map(toEarthquake));
+  }
+
+  return {
+    contentType: FORMAT_MEDIA_TYPES[format],
+    body,
+    etag: `"${createHash('sha1').update(body).digest('base64url')}"`,
+    headers: { ...headers, 'X-Total-Count': String(entries.length) },
+  };
+}
+
+// Scrape whatever the request needs into the catalog, then render the matches.
+// If PHIVOLCS is slow or down, whatever the catalog already holds is served.
+export async function loadEarthquakes(request: EarthquakesRequest, options: LoadOptions): Promise<EarthquakesResponse> {
+  const { year, month, range, filters, pagination, format } = request;
+  const catalog = getCatalog();
+  await catalog.load();
+  const headers: Record<string, string> = {};
+
+  const isLatest = !range && !year && !month;
+  const period: CatalogQuery = range || (isLatest ? { start: Date.now() - LATEST_WINDOW_MS } : { year, month });
+  const query: CatalogQuery = { ...period, ...filters };
+
+  // The background poller keeps the latest page in the catalog, so no scrape is needed
+  if (isLatest && options.latestIsFresh) {
+    headers['X-Data-Source'] = 'catalog';
+    return renderEarthquakes(catalog.query(query), pagination, format, options.selfUrl, { ...headers, ...sourceFormatHeaders(request) });
+  }
+
+  const startTime = Date.now();
+
+  // Cancel the scrape if it hangs, or as soon as the client goes away
+  const timeout = withTimeout(
+    SCRAPE_TIMEOUT_MS,
+    new Error('Scraping operation timed out after 3 minutes. The PHIVOLCS website may be slow or unresponsive.'),
+    options.signal,
+  );
+  const { signal } = timeout;
+
+  try {
+    if (range) {
+      const months = await ingestRange(range.start, range.end, signal);
+      const failed = months.filter(m => m.status === 'failed');
+      if (months.length > 0 && failed.length === months.length) {
+        throw new Error(failed[0]?.error || 'Failed to fetch any month in the requested range');
+      }
+      // Months without an archive page are expected; failed ones mean the result may be incomplete
+      const label = ({ year, month }: RangeMonthStatus) => `${year}-${String(month).padStart(2, '0')}`;
+      headers['X-Range-Months'] = months.map(label).join(',');
+      if (failed.length > 0) {
+        headers['X-Range-Months-Failed'] = failed.map(label).join(',');
+      }
+      console.log(`✅ Fetched ${months.length - failed.length}/${months.length} months in ${Date.now() - startTime}ms`);
+    } else {
+      const result = isLatest ? await options.ingestLatest(signal) : await ingestCached(year, month, { signal });
+
+      console.log(`✅ Successfully fetched ${result.scraped} earthquakes in ${Date.now() - startTime}ms`);
+    }
+    headers['X-Data-Source'] = 'live';
+  } catch (scrapeError) {
+    // Nobody is waiting for a catalog fallback
+    if (options.signal?.aborted) {
+      throw options.signal.reason;
+    }
+    const cached = catalog.query(period);
+    if (cached.length === 0) {
+      throw scrapeError;
+    }
+    console.warn(`⚠️  Scrape failed, serving ${cached.length} earthquakes from the catalog:`, scrapeError instanceof Error ? scrapeError.message : scrapeError);
+    headers['X-Data-Source'] = 'catalog';
+  } finally {
+    timeout.clear();
+  }
+
+  // Return empty array if no data found (not an error)
+  return renderEarthquakes(catalog.query(query), pagination, format, options.selfUrl, { ...headers, ...sourceFormatHeaders(request) });
+}
+
+let detailRefresh: { startedAt: number; done: Promise<unknown> } | null = null;
+
+// Lookups of unknown ids within DETAIL_REFRESH_INTERVAL_MS of each other share one
+// refresh of the latest page, which outlives any one caller giving up
+function refreshForDetail(options: Omit<LoadOptions, 'selfUrl'>): Promise<unknown> {
+  if (!detailRefresh || Date.now() - detailRefresh.startedAt >= DETAIL_REFRESH_INTERVAL_MS) {
+    detailRefresh = { startedAt: Date.now(), done: options.ingestLatest() };
+  }
+  return abortable(detailRefresh.done, options.signal);
+}
+
+// One event with its bulletin and revision history, or null if it isn't known.
+// Unknown ids trigger a scrape of the latest page (at most once per
+// DETAIL_REFRESH_INTERVAL_MS) unless the poller keeps it fresh;
+// a missing or outdated bulletin is fetched on demand.
+export async function loadEarthquakeDetail(id: string, options: Omit<LoadOptions, 'selfUrl'>): Promise<EarthquakeDetail | null> {
+  const catalog = getCatalog();
+  await catalog.load();
+
+  let entry = catalog.get(id);
+  if (!entry && !options.latestIsFresh) {
+    try {
+      await refreshForDetail(options);
+    } catch (error) {
+      if (options.signal?.aborted) throw options.signal.reason;
+      console.warn(`⚠️  Could not refresh the latest page while looking up ${id}:`, error instanceof Error ? error.message : error);
+    }
+    entry = catalog.get(id);
+  }
+  if (!entry) return null;
+
+  entry = await abortable(getBulletinFetcher().fetch(entry, { immediate: true }), options.signal);
+  return { ...toEarthquake(entry), revisions: entry.revisions };
+}
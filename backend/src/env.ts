@@ -0,0 +1,5 @@
+// Non-negative integer from an environment variable, or the fallback when unset/invalid
+export const envNumber = (name: string, fallback: number) => {
+  const value = parseInt(process.env[name] || '', 10);
+  return isNaN(value) || value < 0 ? fallback : value;
+};
@@ -0,0 +1,33 @@
+import { createHash } from "crypto";
+
+export interface EventIdentityFields {
+  time: number;
+  latitude: number;
+  longitude: number;
+  depth: number;
+  magnitude: number;
+}
+
+// Build the canonical key PHIVOLCS values are hashed from.
+// Values are rounded to the precision PHIVOLCS publishes them at
+// (minute, 0.01°, 1 km, 0.1 magnitude) so float noise never changes the key.
+export function eventIdentityKey(eq: EventIdentityFields): string {
+  const minute = Math.floor(eq.time / 60000);
+  const lat = (eq.latitude || 0).toFixed(2);
+  const lon = (eq.longitude || 0).toFixed(2);
+  const depth = Math.round(eq.depth || 0);
+  const mag = (eq.magnitude || 0).toFixed(1);
+  return `${minute}|${lat}|${lon}|${depth}|${mag}`;
+}
+
+// Stable, content-derived event id: the same quake gets the same id on every scrape.
+//
+// Collision policy: two rows that produce the same key share origin minute,
+// epicenter, depth and magnitude, and are treated as the same event (PHIVOLCS
+// repeats rows across tables). The first row wins and later ones are dropped
+// by the dedupe step. Distinct events can only collide if they match on all
+// five fields, which PHIVOLCS does not publish.
+export function eventId(eq: EventIdentityFields): string {
+  const hash = createHash("sha1").update(eventIdentityKey(eq)).digest("hex");
+  return `phivolcs-${hash.substring(0, 16)}`;
+}
@@ -0,0 +1,153 @@
+import http from "http";
+import https from "https";
+import { fetchPageWithBrowser, getBrowserLauncher, USER_AGENT } from "./browser.js";
+import { parsePHIVOLCSHtml, ParseResult } from "./parser.js";
+import type { FetchedPage } from "./types.js";
+
+// auto: plain HTTP first, headless browser only if no table was found
+// http: never launch a browser
+// browser: always render with headless Chromium (the old behaviour)
+export type FetchStrategy = 'auto' | 'http' | 'browser';
+
+const STATIC_FETCH_TIMEOUT_MS = 30000;
+const MAX_REDIRECTS = 5;
+
+// PHIVOLCS serves an incomplete certificate chain; the browser path already
+// ignores HTTPS errors, so the static path does the same.
+const httpsAgent = new https.Agent({ rejectUnauthorized: false, keepAlive: true });
+
+export function resolveFetchStrategy(value = process.env.SCRAPER_FETCH_STRATEGY): FetchStrategy {
+  if (value === 'http' || value === 'browser' || value === 'auto') {
+    return value;
+  }
+  if (value) {
+    console.warn(`⚠️  Unknown SCRAPER_FETCH_STRATEGY "${value}", using "auto"`);
+  }
+  return 'auto';
+}
+
+// PHIVOLCS pages are Word exports, usually windows-1252 rather than UTF-8
+function decodeHtml(body: Buffer, contentType?: string): string {
+  const head = body.subarray(0, 2048).toString('latin1');
+  const charset =
+    contentType?.match(/charset=["']?([\w-]+)/i)?.[1] ||
+    head.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1] ||
+    'utf-8';
+
+  try {
+    return new TextDecoder(charset.toLowerCase()).decode(body);
+  } catch {
+    return new TextDecoder('utf-8').decode(body);
+  }
+}
+
+export interface StaticFetchOptions {
+  timeoutMs?: number;
+  // Destroys the request when aborted
+  signal?: AbortSignal;
+}
+
+// Plain HTTP GET without a browser, following redirects
+export function fetchStaticPage(url: string, options: StaticFetchOptions = {}, redirectsLeft = MAX_REDIRECTS): Promise<FetchedPage> {
+  const { timeoutMs = STATIC_FETCH_TIMEOUT_MS, signal } = options;
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const isHttps = url.startsWith('https:');
+    const client = isHttps ? https : http;
+
+    const request = client.get(url, {
+      agent: isHttps ? httpsAgent : undefined,
+      headers: {
+        'User-Agent': USER_AGENT,
+        'Accept': 'text/html,application/xhtml+xml',
+      },
+      timeout: timeoutMs,
+      signal,
+    }, (response) => {
+      const status = response.statusCode || 0;
+      const location = response.headers.location;
+
+      if (status >= 300 && status < 400 && location) {
+        response.resume();
+        if (redirectsLeft <= 0) {
+          reject(new Error(`Too many redirects while fetching ${url}`));
+          return;
+        }
+        resolve(fetchStaticPage(new URL(location, url).toString(), options, redirectsLeft - 1));
+        return;
+      }
+
+      const chunks: Buffer[] = [];
+      response.on('data', (chunk: Buffer) => chunks.push(chunk));
+      response.on('end', () => {
+        resolve({
+          url,
+          status,
+          html: decodeHtml(Buffer.concat(chunks), response.headers['content-type']),
+          via: 'http',
+        });
+      });
+      response.on('error', (error) => reject(signal?.aborted ? signal.reason : error));
+    });
+
+    request.on('timeout', () => {
+      request.destroy(new Error(`Static fetch timeout after ${timeoutMs}ms: ${url}`));
+    });
+    // An aborted request fails with a generic AbortError; report the signal's reason
+    request.on('error', (error) => reject(signal?.aborted ? signal.reason : error));
+  });
+}
+
+async function fetchStaticWithFallback(targetUrl: string, fallbackUrl?: string, signal?: AbortSignal): Promise<FetchedPage> {
+  let page = await fetchStaticPage(targetUrl, { signal });
+  if (page.status === 404 && fallbackUrl) {
+    console.log(`⚠️  Monthly URL returned 404, falling back to default URL and filtering...`);
+    page = await fetchStaticPage(fallbackUrl, { signal });
+  }
+  if (page.status === 404) {
+    throw new Error(`Page not found (404): ${page.url}`);
+  }
+  return page;
+}
+
+// Fetch and parse a PHIVOLCS page using the given strategy.
+// In "auto" mode the browser is only launched when the static HTML has no
+// parseable earthquake table or the static request itself fails. Without a
+// browser launcher (SCRAPER_BROWSER=none) every strategy behaves like "http".
+// Aborting the signal stops the request or closes the browser page.
+export async function fetchPHIVOLCSPage(
+  targetUrl: string,
+  fallbackUrl?: string,
+  strategy: FetchStrategy = 'auto',
+  signal?: AbortSignal,
+): Promise<{ page: FetchedPage; parsed: ParseResult }> {
+  const launcher = getBrowserLauncher();
+  if (!launcher) {
+    strategy = 'http';
+  }
+
+  if (strategy !== 'browser') {
+    try {
+      const startTime = Date.now();
+      const page = await fetchStaticWithFallback(targetUrl, fallbackUrl, signal);
+      const parsed = parsePHIVOLCSHtml(page.html, page.url);
+      console.log(`⚡ Static fetch of ${page.url} took ${Date.now() - startTime}ms (status ${page.status}, ${parsed.earthquakes.length} earthquakes)`);
+
+      if (parsed.method === 'table' || strategy === 'http') {
+        return { page, parsed };
+      }
+      console.log('⚠️  No earthquake table in static HTML, falling back to headless browser...');
+    } catch (error) {
+      if (strategy === 'http' || signal?.aborted || (error instanceof Error && error.message.startsWith('Page not found'))) {
+        throw error;
+      }
+      console.log('⚠️  Static fetch failed, falling back to headless browser:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  const page = await fetchPageWithBrowser(targetUrl, fallbackUrl, undefined, signal);
+  return { page, parsed: parsePHIVOLCSHtml(page.html, page.url) };
+}
@@ -0,0 +1,140 @@
+import { isLowQuality } from "./quality.js";
+import type { PHIVOLCSEarthquake } from "./types.js";
+
+const EARTH_RADIUS_KM = 6371;
+export const MAX_PAGE_SIZE = 1000;
+export const QUALITY_MODES = ['all', 'strict'] as const;
+
+export interface EarthquakeFilters {
+  minMagnitude?: number;
+  maxMagnitude?: number;
+  minDepth?: number;
+  maxDepth?: number;
+  // [minLon, minLat, maxLon, maxLat]
+  bbox?: [number, number, number, number];
+  near?: { latitude: number; longitude: number; radiusKm: number };
+  // Province named in the PHIVOLCS place string, case-insensitive
+  province?: string;
+  // 'strict' drops records with imputed, unparsed or out-of-region data
+  quality?: typeof QUALITY_MODES[number];
+}
+
+export interface Pagination {
+  limit?: number;
+  offset: number;
+}
+
+type QueryParams = Record<string, unknown>;
+
+// Great-circle distance between two points in kilometres
+export function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+function numberParam(query: QueryParams, name: string): number | undefined {
+  const raw = query[name];
+  if (raw === undefined || raw === null || raw === '') return undefined;
+  const value = typeof raw === 'string' || typeof raw === 'number' ? Number(raw) : NaN;
+  if (!isFinite(value)) {
+    throw new Error(`${name} must be a number`);
+  }
+  return value;
+}
+
+function checkOrder(name: string, min?: number, max?: number): void {
+  if (min !== undefined && max !== undefined && min > max) {
+    throw new Error(`min${name} must not be greater than max${name}`);
+  }
+}
+
+// Parse magnitude, depth, bbox, point-radius, province and quality filters from request query
+// parameters (or the same keys in a JSON body, where numbers and a bbox array are
+// also accepted). Throws with a client-facing message when a value is invalid.
+export function parseFilters(query: QueryParams): EarthquakeFilters {
+  const filters: EarthquakeFilters = {
+    minMagnitude: numberParam(query, 'minMagnitude'),
+    maxMagnitude: numberParam(query, 'maxMagnitude'),
+    minDepth: numberParam(query, 'minDepth'),
+    maxDepth: numberParam(query, 'maxDepth'),
+  };
+  checkOrder('Magnitude', filters.minMagnitude, filters.maxMagnitude);
+  checkOrder('Depth', filters.minDepth, filters.maxDepth);
+
+  if (Array.isArray(query.bbox) || (typeof query.bbox === 'string' && query.bbox !== '')) {
+    const parts = (Array.isArray(query.bbox) ? query.bbox : query.bbox.split(',')).map(part => Number(String(part).trim()));
+    if (parts.length !== 4 || parts.some(part => !isFinite(part))) {
+      throw new Error('bbox must be minLon,minLat,maxLon,maxLat');
+    }
+    const [minLon, minLat, maxLon, maxLat] = parts;
+    if (minLon > maxLon || minLat > maxLat) {
+      throw new Error('bbox minimums must not be greater than its maximums');
+    }
+    filters.bbox = [minLon, minLat, maxLon, maxLat];
+  }
+
+  const latitude = numberParam(query, 'lat');
+  const longitude = numberParam(query, 'lon');
+  const radiusKm = numberParam(query, 'radiusKm');
+  if (latitude !== undefined || longitude !== undefined || radiusKm !== undefined) {
+    if (latitude === undefined || longitude === undefined || radiusKm === undefined) {
+      throw new Error('lat, lon and radiusKm must be given together');
+    }
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180 || radiusKm <= 0) {
+      throw new Error('lat/lon must be valid coordinates and radiusKm must be positive');
+    }
+    filters.near = { latitude, longitude, radiusKm };
+  }
+
+  if (query.province !== undefined && query.province !== '') {
+    if (typeof query.province !== 'string') {
+      throw new Error('province must be a single province name');
+    }
+    filters.province = query.province.trim();
+  }
+
+  if (query.quality !== undefined && query.quality !== '') {
+    if (!QUALITY_MODES.includes(query.quality as typeof QUALITY_MODES[number])) {
+      throw new Error(`quality must be one of: ${QUALITY_MODES.join(', ')}`);
+    }
+    filters.quality = query.quality as typeof QUALITY_MODES[number];
+  }
+
+  return filters;
+}
+
+// Parse limit/offset. Without a limit every match is returned (the original behaviour).
+export function parsePagination(query: QueryParams): Pagination {
+  const limit = numberParam(query, 'limit');
+  const offset = numberParam(query, 'offset') ?? 0;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE)) {
+    throw new Error(`limit must be an integer from 1 to ${MAX_PAGE_SIZE}`);
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new Error('offset must be a non-negative integer');
+  }
+  return { limit, offset };
+}
+
+export function matchesFilters(eq: PHIVOLCSEarthquake, filters: EarthquakeFilters): boolean {
+  const { minMagnitude, maxMagnitude, minDepth, maxDepth, bbox, near, province, quality } = filters;
+  if (minMagnitude !== undefined && eq.magnitude < minMagnitude) return false;
+  if (maxMagnitude !== undefined && eq.magnitude > maxMagnitude) return false;
+  if (minDepth !== undefined && eq.depth < minDepth) return false;
+  if (maxDepth !== undefined && eq.depth > maxDepth) return false;
+  if (bbox) {
+    const [minLon, minLat, maxLon, maxLat] = bbox;
+    if (eq.longitude < minLon || eq.longitude > maxLon || eq.latitude < minLat || eq.latitude > maxLat) return false;
+  }
+  if (near && haversineKm(near.latitude, near.longitude, eq.latitude, eq.longitude) > near.radiusKm) return false;
+  if (province && eq.location?.province?.toLowerCase() !== province.toLowerCase()) return false;
+  if (quality === 'strict' && isLowQuality(eq.quality)) return false;
+  return true;
+}
+
+export function paginate<T>(items: T[], { limit, offset }: Pagination): T[] {
+  return items.slice(offset, limit === undefined ? undefined : offset + limit);
+}
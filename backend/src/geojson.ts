@@ -0,0 +1,110 @@
+import { CatalogEntry, detailPath } from "./catalog.js";
+
+// GeoJSON FeatureCollection in the shape of the USGS earthquake feeds
+// (https://earthquake.usgs.gov/earthquakes/feed/v1.0/geojson.php), so tools that
+// read USGS feeds can read ours. Coordinates are [longitude, latitude, depth km].
+
+export interface GeoJSONFeature {
+  type: 'Feature';
+  id: string;
+  properties: {
+    mag: number;
+    place: string;
+    time: number;
+    updated: number;
+    tz: null;
+    url: string | null;
+    detail: string | null;
+    status: 'reviewed';
+    type: 'earthquake';
+    title: string;
+    net: 'phivolcs';
+    code: string;
+    ids: string;
+    sources: string;
+    magType: null;
+  };
+  geometry: {
+    type: 'Point';
+    coordinates: [number, number, number];
+  };
+}
+
+export interface GeoJSONFeatureCollection {
+  type: 'FeatureCollection';
+  metadata: {
+    generated: number;
+    url: string;
+    title: string;
+    status: number;
+    api: string;
+    count: number;
+  };
+  // [minLon, minLat, minDepth, maxLon, maxLat, maxDepth], omitted when there are no features
+  bbox?: [number, number, number, number, number, number];
+  features: GeoJSONFeature[];
+}
+
+export const GEOJSON_API_VERSION = '1.0.0';
+
+// detail links are absolute when the feed's own URL is known, like the USGS feeds
+export function toGeoJSONFeature(entry: CatalogEntry, baseUrl?: string): GeoJSONFeature {
+  const code = entry.id.replace(/^phivolcs-/, '');
+  return {
+    type: 'Feature',
+    id: entry.id,
+    properties: {
+      mag: entry.magnitude,
+      place: entry.place,
+      time: entry.time,
+      updated: entry.lastUpdated ?? entry.time,
+      tz: null,
+      url: entry.url || null,
+      detail: baseUrl && URL.canParse(baseUrl) ? new URL(detailPath(entry.id), baseUrl).toString() : detailPath(entry.id),
+      // PHIVOLCS only publishes reviewed solutions on its bulletin pages
+      status: 'reviewed',
+      type: 'earthquake',
+      title: `M ${entry.magnitude.toFixed(1)} - ${entry.place}`,
+      net: 'phivolcs',
+      code,
+      ids: `,${entry.aliases.join(',')},`,
+      sources: ',phivolcs,',
+      // PHIVOLCS does not state the magnitude type on its listing pages
+      magType: null,
+    },
+    geometry: {
+      type: 'Point',
+      coordinates: [entry.longitude, entry.latitude, entry.depth],
+    },
+  };
+}
+
+export function toGeoJSON(entries: CatalogEntry[], url: string, title = 'PHIVOLCS Earthquakes'): GeoJSONFeatureCollection {
+  const features = entries.map(entry => toGeoJSONFeature(entry, url));
+  const collection: GeoJSONFeatureCollection = {
+    type: 'FeatureCollection',
+    metadata: {
+      generated: Date.now(),
+      url,
+      title,
+      status: 200,
+      api: GEOJSON_API_VERSION,
+      count: features.length,
+    },
+    features,
+  };
+
+  if (features.length > 0) {
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    for (const { geometry } of features) {
+      geometry.coordinates.forEach((value, i) => {
+        min[i] = Math.min(min[i], value);
+        max[i] = Math.max(max[i], value);
+      });
+    }
+    collection.bbox = [min[0], min[1], min[2], max[0], max[1], max[2]];
+  }
+
+  return collection;
+}
@@ -0,0 +1,128 @@
+import { EventEmitter } from "events";
+import { abortable, sleep } from "./abort.js";
+import { getBulletinFetcher } from "./bulletin.js";
+import { TtlCache } from "./cache.js";
+import { getCatalog, UpsertResult } from "./catalog.js";
+import { envNumber } from "./env.js";
+import { recordIngest } from "./metrics.js";
+import { phtMonthsBetween, toPHTCalendar } from "./phtTime.js";
+import { scrapePHIVOLCS, ScrapeOptions } from "./scraper.js";
+
+export interface IngestResult extends UpsertResult {
+  year?: number;
+  month?: number;
+  scraped: number;
+  durationMs: number;
+}
+
+export interface IngestOptions extends ScrapeOptions {
+  // Fetch the bulletins of recent quakes afterwards (default true)
+  followBulletins?: boolean;
+}
+
+// Emits 'ingested' with an IngestResult after every successful scrape + upsert
+export const ingestEvents = new EventEmitter();
+
+// Scrape one PHIVOLCS page (latest, or a monthly archive) into the catalog
+export async function ingest(year?: number, month?: number, options: IngestOptions = {}): Promise<IngestResult> {
+  const startTime = Date.now();
+  const earthquakes = await scrapePHIVOLCS(year, month, options);
+  const catalog = getCatalog();
+  const upserted = await catalog.upsert(earthquakes);
+
+  const result: IngestResult = {
+    ...upserted,
+    year,
+    month,
+    scraped: earthquakes.length,
+    durationMs: Date.now() - startTime,
+  };
+  recordIngest();
+  console.log(`📚 Catalog: ${result.created.length} new, ${result.updated.length} revised, ${catalog.size} total`);
+  ingestEvents.emit('ingested', result);
+
+  // Follow the bulletin links of recent quakes in the background, throttled
+  if (options.followBulletins !== false) {
+    void getBulletinFetcher().enqueue(earthquakes.map(eq => catalog.get(eq.id)).filter(Boolean));
+  }
+  return result;
+}
+
+// Recently scraped pages are reused so repeated queries don't hit PHIVOLCS again.
+// The results are already in the catalog; a stale hit refreshes in the background.
+const scrapeCache = new TtlCache<IngestResult>({
+  name: 'Scrape cache',
+  ttlMs: envNumber('SCRAPE_CACHE_TTL_MS', 10 * 60 * 1000),
+  staleMs: envNumber('SCRAPE_CACHE_STALE_MS', 60 * 60 * 1000),
+});
+
+// Monthly archive pages are scraped one at a time across all requests, at least this
+// far apart; the backfill CLI paces itself the same way (--delay-ms)
+export const ARCHIVE_REQUEST_DELAY_MS = envNumber('ARCHIVE_REQUEST_DELAY_MS', 5000);
+
+let archiveQueue: Promise<unknown> = Promise.resolve();
+let lastArchiveRequestAt = 0;
+
+function throttleArchive<T>(run: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  const turn = archiveQueue.then(async () => {
+    // Gave up while waiting for its turn
+    if (signal?.aborted) throw signal.reason;
+    await sleep(Math.max(0, lastArchiveRequestAt + ARCHIVE_REQUEST_DELAY_MS - Date.now()), signal);
+    try {
+      return await run();
+    } finally {
+      lastArchiveRequestAt = Date.now();
+    }
+  });
+  archiveQueue = turn.catch(() => undefined);
+  return abortable(turn, signal);
+}
+
+// ingest() through the scrape cache; concurrent calls for the same page share one
+// scrape, which is cancelled only once every caller's signal has aborted. Archive
+// pages wait their turn (see ARCHIVE_REQUEST_DELAY_MS).
+export async function ingestCached(year?: number, month?: number, options: ScrapeOptions = {}): Promise<IngestResult> {
+  const { signal, ...scrapeOptions } = options;
+  const key = `${year ?? 'latest'}-${month ?? ''}-${scrapeOptions.fallbackToLatest !== false}`;
+  const load = (loadSignal: AbortSignal) => ingest(year, month, { ...scrapeOptions, signal: loadSignal });
+  const { value } = await scrapeCache.get(
+    key,
+    (loadSignal) => (year && month ? throttleArchive(() => load(loadSignal), loadSignal) : load(loadSignal)),
+    signal,
+  );
+  return value;
+}
+
+export interface RangeMonthStatus {
+  year: number;
+  month: number;
+  status: 'ingested' | 'missing' | 'failed';
+  error?: string;
+}
+
+// Ingest every monthly archive page that overlaps [start, end), one page at a time.
+// Months after the current one have no page yet and are skipped. The current month's
+// archive may not exist yet either, so it falls back to the latest page.
+// An aborted signal stops the whole range rather than marking months failed.
+export async function ingestRange(start: number, end: number, signal?: AbortSignal): Promise<RangeMonthStatus[]> {
+  const now = toPHTCalendar(Date.now());
+  const statuses: RangeMonthStatus[] = [];
+  const until = Math.min(end, Date.now());
+  if (start >= until) return statuses;
+
+  for (const { year, month } of phtMonthsBetween(start, until)) {
+    const isCurrentMonth = year === now.year && month === now.month;
+    try {
+      await ingestCached(year, month, { fallbackToLatest: isCurrentMonth, signal });
+      statuses.push({ year, month, status: 'ingested' });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      const message = error instanceof Error ? error.message : String(error);
+      const status = message.includes('Page not found') ? 'missing' : 'failed';
+      console.warn(`⚠️  ${year}-${String(month).padStart(2, '0')} ${status}: ${message}`);
+      statuses.push({ year, month, status, error: message });
+    }
+  }
+
+  return statuses;
+}
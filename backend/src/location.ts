@@ -0,0 +1,67 @@
+import type { PlaceLocation } from "./types.js";
+
+// PHIVOLCS describes epicenters relative to a town, e.g.
+// "046 km S 42° E of Governor Generoso (Davao Oriental)": the epicenter is 46 km
+// from Governor Generoso on a quadrant bearing of S 42° E (138° from north).
+
+const EARTH_RADIUS_KM = 6371;
+
+const PLACE_PATTERN = /^\s*(\d+(?:\.\d+)?)\s*km\s+([NSEW])(?:\s*(\d+(?:\.\d+)?)\s*[°º]?\s*([EW]))?\s+of\s+(.+?)\s*(?:\(([^)]*)\))?\s*$/i;
+
+const CARDINAL_BEARINGS: Record<string, number> = { N: 0, E: 90, S: 180, W: 270 };
+
+// "S 42° E" → 138; a bare "N"/"E"/"S"/"W" is the cardinal direction
+export function quadrantBearing(from: string, degrees?: number, toward?: string): number | null {
+  const start = from.toUpperCase();
+  if (degrees === undefined || toward === undefined) {
+    return CARDINAL_BEARINGS[start] ?? null;
+  }
+  if (degrees < 0 || degrees > 90 || (start !== 'N' && start !== 'S')) return null;
+  const east = toward.toUpperCase() === 'E';
+  const bearing = start === 'N' ? (east ? degrees : 360 - degrees) : (east ? 180 - degrees : 180 + degrees);
+  return bearing % 360;
+}
+
+// Point reached by travelling distanceKm from a point on a bearing (great circle)
+export function destinationPoint(latitude: number, longitude: number, bearing: number, distanceKm: number): { latitude: number; longitude: number } {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const toDeg = (rad: number) => (rad * 180) / Math.PI;
+  const angular = distanceKm / EARTH_RADIUS_KM;
+  const lat1 = toRad(latitude);
+  const theta = toRad(bearing);
+
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(theta));
+  const lon2 = toRad(longitude) + Math.atan2(
+    Math.sin(theta) * Math.sin(angular) * Math.cos(lat1),
+    Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2),
+  );
+
+  const round = (value: number) => Math.round(value * 10000) / 10000;
+  return { latitude: round(toDeg(lat2)), longitude: round(((toDeg(lon2) + 540) % 360) - 180) };
+}
+
+// Decompose a PHIVOLCS place string. Returns null for text that doesn't follow the
+// "<distance> km <bearing> of <town> (<province>)" pattern; the raw string is always
+// kept on the earthquake itself as `place`. Given the epicenter, the reference
+// town's position is worked out too.
+export function parsePlace(place: string, epicenter?: { latitude: number; longitude: number }): PlaceLocation | null {
+  const match = place.replace(/\s+/g, ' ').match(PLACE_PATTERN);
+  if (!match) return null;
+
+  const [, distance, from, degrees, toward, municipality, province] = match;
+  const bearing = quadrantBearing(from, degrees === undefined ? undefined : parseFloat(degrees), toward);
+  if (bearing === null) return null;
+
+  const distanceKm = parseFloat(distance);
+  return {
+    raw: place,
+    distanceKm,
+    bearing,
+    municipality: municipality.trim(),
+    province: province?.trim() || null,
+    // Walk back from the epicenter along the bearing
+    reference: epicenter
+      ? destinationPoint(epicenter.latitude, epicenter.longitude, (bearing + 180) % 360, distanceKm)
+      : null,
+  };
+}
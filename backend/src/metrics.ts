@@ -0,0 +1,281 @@
+import type { CacheState } from "./cache.js";
+import type { ParseMethod, RowDiagnostic } from "./parser.js";
+
+// Scraper health metrics, rendered in the Prometheus text exposition format at
+// /metrics and summarized on /health. Counters only ever go up; a scrape whose
+// rows are suddenly all rejected, or that needs a fallback parser, usually means
+// PHIVOLCS changed its markup.
+
+type Labels = Record<string, string>;
+
+interface Series {
+  labels: Labels;
+  value: number;
+}
+
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(',')}}`;
+}
+
+const formatValue = (value: number) =>
+  value === Infinity ? '+Inf' : value === -Infinity ? '-Inf' : String(value);
+
+abstract class Metric {
+  constructor(readonly name: string, readonly help: string, readonly type: 'counter' | 'gauge' | 'histogram') {}
+
+  abstract samples(): string[];
+
+  render(): string {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()].join('\n');
+  }
+}
+
+// One value per label set
+class LabelledMetric extends Metric {
+  protected series = new Map<string, Series>();
+
+  get(labels: Labels = {}): number {
+    return this.series.get(formatLabels(labels))?.value ?? 0;
+  }
+
+  // Every label set seen so far with its value
+  values(): Series[] {
+    return Array.from(this.series.values());
+  }
+
+  protected update(labels: Labels, change: (value: number) => number): void {
+    const key = formatLabels(labels);
+    const series = this.series.get(key) || { labels, value: 0 };
+    series.value = change(series.value);
+    this.series.set(key, series);
+  }
+
+  samples(): string[] {
+    return this.values().map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+}
+
+export class Counter extends LabelledMetric {
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, by = 1): void {
+    this.update(labels, (value) => value + by);
+  }
+}
+
+export class Gauge extends LabelledMetric {
+  // collect() is called on every render, for values owned by another module
+  constructor(name: string, help: string, private readonly collect?: (gauge: Gauge) => void) {
+    super(name, help, 'gauge');
+  }
+
+  set(value: number, labels: Labels = {}): void {
+    this.update(labels, () => value);
+  }
+
+  samples(): string[] {
+    this.collect?.(this);
+    return super.samples();
+  }
+}
+
+export class Histogram extends Metric {
+  private counts: number[];
+  private sum = 0;
+  private count = 0;
+
+  constructor(name: string, help: string, private readonly buckets: number[]) {
+    super(name, help, 'histogram');
+    this.counts = buckets.map(() => 0);
+  }
+
+  observe(value: number): void {
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) this.counts[i]++;
+    });
+    this.sum += value;
+    this.count++;
+  }
+
+  samples(): string[] {
+    return [
+      ...this.buckets.map((bound, i) => `${this.name}_bucket{le="${formatValue(bound)}"} ${this.counts[i]}`),
+      `${this.name}_bucket{le="+Inf"} ${this.count}`,
+      `${this.name}_sum ${this.sum}`,
+      `${this.name}_count ${this.count}`,
+    ];
+  }
+}
+
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string, collect?: (gauge: Gauge) => void): Gauge {
+    return this.register(new Gauge(name, help, collect));
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  // Prometheus text exposition format (text/plain; version=0.0.4)
+  render(): string {
+    return `${Array.from(this.metrics.values()).map((metric) => metric.render()).join('\n')}\n`;
+  }
+
+  private register<M extends Metric>(metric: M): M {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export const registry = new MetricsRegistry();
+
+const scrapes = registry.counter('phivolcs_scrapes_total', 'PHIVOLCS page scrapes by result');
+const scrapeDuration = registry.histogram(
+  'phivolcs_scrape_duration_seconds',
+  'Time to fetch and parse one PHIVOLCS page',
+  [0.5, 1, 2, 5, 10, 30, 60, 120],
+);
+const parseMethods = registry.counter('phivolcs_parse_method_total', 'Scrapes by the parser that produced their earthquakes (anything but table is a fallback)');
+const pagesFetched = registry.counter('phivolcs_pages_fetched_total', 'Pages fetched, by plain HTTP or headless browser');
+const rowsSeen = registry.counter('phivolcs_rows_seen_total', 'Table rows examined by the parser');
+const rowsParsed = registry.counter('phivolcs_rows_parsed_total', 'Table rows parsed into earthquakes');
+const rowsRejected = registry.counter('phivolcs_rows_rejected_total', 'Table rows rejected by the parser, by reason');
+const browserLaunchFailures = registry.counter('phivolcs_browser_launch_failures_total', 'Headless browser launches that failed');
+const browserCrashes = registry.counter('phivolcs_browser_crashes_total', 'Pooled browsers that disconnected unexpectedly');
+const sourceFormatChanges = registry.counter('phivolcs_source_format_changes_total', 'Times a PHIVOLCS page stopped matching its known-good markup fingerprint, by kind of page');
+const cacheLookups = registry.counter('phivolcs_cache_lookups_total', 'Cache lookups by cache and result (hit, stale or miss)');
+const lastIngest = registry.gauge('phivolcs_last_successful_ingest_timestamp_seconds', 'Unix time of the last scrape stored in the catalog');
+
+let lastScrape: { at: number; method: ParseMethod; parsed: number; rejected: number; error: string | null } | null = null;
+
+export interface ScrapeObservation {
+  durationMs: number;
+  via: 'http' | 'browser';
+  method: ParseMethod;
+  diagnostics: RowDiagnostic[];
+}
+
+// A page was fetched and parsed (even if no earthquakes came out of it)
+export function recordScrape({ durationMs, via, method, diagnostics }: ScrapeObservation): void {
+  scrapes.inc({ result: 'success' });
+  scrapeDuration.observe(durationMs / 1000);
+  pagesFetched.inc({ via });
+  parseMethods.inc({ method });
+
+  let parsed = 0;
+  let rejected = 0;
+  rowsSeen.inc({}, diagnostics.length);
+  for (const diagnostic of diagnostics) {
+    if (diagnostic.status === 'parsed') {
+      parsed++;
+      rowsParsed.inc();
+    } else {
+      rowsRejected.inc({ reason: diagnostic.reason || 'unknown' });
+      // Every page has header rows; only other rejections count against it
+      if (diagnostic.reason !== 'header') rejected++;
+    }
+  }
+  lastScrape = { at: Date.now(), method, parsed, rejected, error: null };
+}
+
+export function recordScrapeFailure(durationMs: number, error: unknown): void {
+  const message = error instanceof Error ? error.message : String(error);
+  scrapeDuration.observe(durationMs / 1000);
+  // A monthly archive that doesn't exist (yet) says nothing about the scraper's health
+  if (message.startsWith('Page not found')) {
+    scrapes.inc({ result: 'not_found' });
+    return;
+  }
+  scrapes.inc({ result: 'failure' });
+  lastScrape = { at: Date.now(), method: 'none', parsed: 0, rejected: 0, error: message };
+}
+
+export function recordBrowserLaunchFailure(): void {
+  browserLaunchFailures.inc();
+}
+
+export function recordBrowserCrash(): void {
+  browserCrashes.inc();
+}
+
+export function recordSourceFormatChange(page: string): void {
+  sourceFormatChanges.inc({ page });
+}
+
+export function recordCacheLookup(cache: string, state: CacheState): void {
+  cacheLookups.inc({ cache, state });
+}
+
+export function recordIngest(at: number = Date.now()): void {
+  lastIngest.set(Math.round(at / 1000));
+}
+
+export interface HealthSummary {
+  // degraded: the last scrape failed, found nothing, or needed a fallback parser
+  status: 'ok' | 'degraded';
+  lastSuccessfulIngestAt: string | null;
+  lastScrape: {
+    at: string;
+    method: ParseMethod;
+    rowsParsed: number;
+    rowsRejected: number;
+    error: string | null;
+  } | null;
+  scrapes: { success: number; failure: number };
+  fallbackParses: number;
+  browserLaunchFailures: number;
+  // Share of lookups answered from the cache, fresh or stale
+  cacheHitRate: Record<string, number | null>;
+}
+
+export function healthSummary(): HealthSummary {
+  const hitRate: Record<string, number | null> = {};
+  const lookups = new Map<string, { served: number; total: number }>();
+  for (const { labels, value } of cacheLookups.values()) {
+    const totals = lookups.get(labels.cache) || { served: 0, total: 0 };
+    totals.total += value;
+    if (labels.state !== 'miss') totals.served += value;
+    lookups.set(labels.cache, totals);
+  }
+  for (const [cache, { served, total }] of lookups) {
+    hitRate[cache] = total > 0 ? Math.round((served / total) * 1000) / 1000 : null;
+  }
+
+  const lastIngestSeconds = lastIngest.values()[0]?.value;
+  const degraded = !!lastScrape && (lastScrape.error !== null || lastScrape.method !== 'table' || lastScrape.parsed === 0);
+
+  return {
+    status: degraded ? 'degraded' : 'ok',
+    lastSuccessfulIngestAt: lastIngestSeconds === undefined ? null : new Date(lastIngestSeconds * 1000).toISOString(),
+    lastScrape: lastScrape && {
+      at: new Date(lastScrape.at).toISOString(),
+      method: lastScrape.method,
+      rowsParsed: lastScrape.parsed,
+      rowsRejected: lastScrape.rejected,
+      error: lastScrape.error,
+    },
+    scrapes: { success: scrapes.get({ result: 'success' }), failure: scrapes.get({ result: 'failure' }) },
+    fallbackParses: parseMethods.values()
+      .filter(({ labels }) => labels.method !== 'table')
+      .reduce((total, { value }) => total + value, 0),
+    browserLaunchFailures: browserLaunchFailures.get(),
+    cacheHitRate: hitRate,
+  };
+}
@@ -0,0 +1,179 @@
+import express from "express";
+import { promises as fs } from "fs";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import path from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { envNumber } from "./env.js";
+
+// A stand-in for earthquake.phivolcs.dost.gov.ph that serves the test fixtures,
+// for integration tests and offline development:
+//
+//   npm run mock:phivolcs
+//   PHIVOLCS_BASE_URL=http://localhost:3002/ npm run dev
+//
+// It mirrors the real site's paths: the latest page at /, monthly archives at
+// /EQLatest-Monthly/2024/2024_January.html (from monthly-2024-01.html) and
+// bulletins at /2025_Earthquake_Information/November/2025_1115_2347_B2F.html
+// (from bulletin-2025-1115-2347-B2F.html). Pages without a fixture are 404s.
+// The scenario changes how listing pages are served, at startup
+// (MOCK_PHIVOLCS_SCENARIO) or at runtime (POST /__mock/scenario/<name>).
+
+export const MOCK_SCENARIOS = ['normal', 'slow', 'malformed', 'redesigned', 'not-found'] as const;
+export type MockScenario = typeof MOCK_SCENARIOS[number];
+
+export const DEFAULT_FIXTURES_DIR = fileURLToPath(new URL('../test/fixtures/', import.meta.url));
+
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+// Fixture served in place of every listing page, by scenario
+const SCENARIO_PAGES: Partial<Record<MockScenario, string>> = {
+  malformed: 'malformed-rows.html',
+  redesigned: 'redesigned.html',
+};
+
+export interface MockPhivolcsOptions {
+  fixturesDir?: string;
+  scenario?: MockScenario;
+  // How long every response takes in the "slow" scenario
+  slowMs?: number;
+}
+
+export const isMockScenario = (value: string): value is MockScenario =>
+  (MOCK_SCENARIOS as readonly string[]).includes(value);
+
+export class MockPhivolcsServer {
+  scenario: MockScenario;
+  // Paths requested so far, for tests
+  readonly requests: string[] = [];
+  private server: Server | null = null;
+  private readonly options: Required<Omit<MockPhivolcsOptions, 'scenario'>>;
+
+  constructor(options: MockPhivolcsOptions = {}) {
+    this.scenario = options.scenario || 'normal';
+    this.options = {
+      fixturesDir: DEFAULT_FIXTURES_DIR,
+      slowMs: 10000,
+      ...options,
+    };
+  }
+
+  createApp(): express.Express {
+    const app = express();
+
+    app.post('/__mock/scenario/:name', (req, res) => {
+      if (!isMockScenario(req.params.name)) {
+        res.status(400).json({
+          error: 'Invalid scenario',
+          message: `Scenario must be one of: ${MOCK_SCENARIOS.join(', ')}`,
+        });
+        return;
+      }
+      this.scenario = req.params.name;
+      console.log(`🎭 Mock PHIVOLCS scenario: ${this.scenario}`);
+      res.json({ scenario: this.scenario });
+    });
+
+    app.get('/__mock/scenario', (req, res) => {
+      res.json({ scenario: this.scenario, scenarios: MOCK_SCENARIOS });
+    });
+
+    app.use((req, res, next) => {
+      this.requests.push(req.path);
+      if (this.scenario !== 'slow') {
+        next();
+        return;
+      }
+      // Cut short when the client gives up, so tests don't leave timers behind
+      const timer = setTimeout(next, this.options.slowMs);
+      res.on('close', () => clearTimeout(timer));
+    });
+
+    app.get(['/', '/index.html'], (req, res) => this.sendListing(res, 'latest.html'));
+
+    app.get('/EQLatest-Monthly/:year/:file', (req, res) => {
+      const { year, file } = req.params;
+      const monthName = file.match(new RegExp(`^${year}_([A-Za-z]+)\\.html$`))?.[1]?.toLowerCase();
+      const month = MONTH_NAMES.indexOf(monthName || '') + 1;
+      this.sendListing(res, month > 0 ? `monthly-${year}-${String(month).padStart(2, '0')}.html` : null);
+    });
+
+    app.get('/:info/:month/:file', (req, res) => {
+      const bulletin = req.params.file.match(/^(\d{4})_(\d{4})_(\d{4})_(\w+)\.html$/);
+      if (!/^\d{4}_Earthquake_Information$/.test(req.params.info) || !bulletin || this.scenario === 'not-found') {
+        this.sendNotFound(res);
+        return;
+      }
+      const [, year, day, time, suffix] = bulletin;
+      this.sendFixture(res, `bulletin-${year}-${day}-${time}-${suffix}.html`);
+    });
+
+    app.use((req, res) => this.sendNotFound(res));
+    return app;
+  }
+
+  // Resolves with the base URL to point PHIVOLCS_BASE_URL at; port 0 picks a free one
+  listen(port = 0): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const server = this.createApp().listen(port, () => {
+        const { port: boundPort } = server.address() as AddressInfo;
+        resolve(`http://localhost:${boundPort}/`);
+      });
+      server.on('error', reject);
+      this.server = server;
+    });
+  }
+
+  close(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (!server) return Promise.resolve();
+    server.closeAllConnections();
+    return new Promise((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+  }
+
+  private sendListing(res: express.Response, fixture: string | null): void {
+    if (this.scenario === 'not-found' || !fixture) {
+      this.sendNotFound(res);
+      return;
+    }
+    this.sendFixture(res, SCENARIO_PAGES[this.scenario] || fixture);
+  }
+
+  private async sendFixture(res: express.Response, name: string): Promise<void> {
+    let html: string;
+    try {
+      html = await fs.readFile(path.join(this.options.fixturesDir, name), 'utf8');
+    } catch {
+      this.sendNotFound(res);
+      return;
+    }
+    if (!res.headersSent) {
+      res.type('text/html; charset=utf-8').send(html);
+    }
+  }
+
+  private async sendNotFound(res: express.Response): Promise<void> {
+    const html = await fs.readFile(path.join(this.options.fixturesDir, 'not-found.html'), 'utf8')
+      .catch(() => '<h1>Not Found</h1>');
+    if (!res.headersSent) {
+      res.status(404).type('text/html; charset=utf-8').send(html);
+    }
+  }
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] || '').href) {
+  const scenario = process.env.MOCK_PHIVOLCS_SCENARIO || 'normal';
+  if (!isMockScenario(scenario)) {
+    console.error(`❌ Unknown MOCK_PHIVOLCS_SCENARIO "${scenario}", expected one of: ${MOCK_SCENARIOS.join(', ')}`);
+    process.exitCode = 1;
+  } else {
+    const mock = new MockPhivolcsServer({ scenario, slowMs: envNumber('MOCK_PHIVOLCS_SLOW_MS', 10000) });
+    const baseUrl = await mock.listen(envNumber('MOCK_PHIVOLCS_PORT', 3002));
+    console.log(`🎭 Mock PHIVOLCS serving fixtures at ${baseUrl} (scenario: ${scenario})`);
+    console.log(`💡 Start the backend with PHIVOLCS_BASE_URL=${baseUrl} to scrape it`);
+  }
+}
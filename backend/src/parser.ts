@@ -0,0 +1,423 @@
+import * as cheerio from "cheerio";
+import type { Element } from "domhandler";
+import { eventId } from "./eventId.js";
+import { parsePlace } from "./location.js";
+import { parsePHTDateTime } from "./phtTime.js";
+import { assessQuality, isPhilippineLatitude, isPhilippineLongitude, PHILIPPINES_CENTER } from "./quality.js";
+import type { PHIVOLCSEarthquake } from "./types.js";
+
+// Which heuristic produced the earthquakes in a parse result
+export type ParseMethod = 'table' | 'div' | 'script' | 'none';
+
+export type RowRejectReason =
+  | 'header'
+  | 'too-few-cells'
+  | 'invalid-magnitude'
+  | 'invalid-coordinates'
+  | 'unparseable-date'
+  | 'duplicate'
+  | 'error';
+
+export interface RowDiagnostic {
+  tableIndex: number;
+  rowIndex: number;
+  cells: string[];
+  status: 'parsed' | 'rejected';
+  reason?: RowRejectReason;
+  message?: string;
+  id?: string;
+}
+
+export interface ParseResult {
+  earthquakes: PHIVOLCSEarthquake[];
+  diagnostics: RowDiagnostic[];
+  method: ParseMethod;
+  tableCount: number;
+}
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const HEADER_PATTERN = /date|time|magnitude|location|latitude|longitude|depth|header|seismological|observation/i;
+
+interface RowFields {
+  dateStr: string;
+  timeStr: string;
+  magnitude: number;
+  latitude: number;
+  longitude: number;
+  depth: number;
+  place: string;
+}
+
+// Handle leading zeros in PHIVOLCS numbers (e.g., "06.34" -> 6.34, "048" -> 48)
+function parseNumber(text: string): number {
+  return parseFloat(text.replace(/^0+/, '')) || parseFloat(text);
+}
+
+// Apply the column-layout heuristics to a single row's cell texts
+function extractRowFields(cellTexts: string[]): RowFields {
+  const fields: RowFields = {
+    dateStr: '',
+    timeStr: '',
+    magnitude: 0,
+    latitude: 0,
+    longitude: 0,
+    depth: 0,
+    place: '',
+  };
+
+  // Look for magnitude in any cell first
+  for (let i = 0; i < cellTexts.length; i++) {
+    const mag = parseFloat(cellTexts[i]);
+    if (!isNaN(mag) && mag > 0 && mag < 10) {
+      fields.magnitude = mag;
+      // Try to infer other data based on position
+      if (i > 0) {
+        fields.dateStr = cellTexts[0] || '';
+        fields.timeStr = cellTexts[1] || '';
+      }
+      break;
+    }
+  }
+
+  // PHIVOLCS format: Date/Time | Latitude | Longitude | Depth | Magnitude | Location
+  // Example: "16 November 2025 - 02:35 PM	06.34	126.35	048	4.1	046 km S 42° E of Governor Generoso"
+  if (cellTexts.length >= 6) {
+    const firstCell = cellTexts[0];
+    const hasSeparateTimeColumn = /^\d{1,2}:\d{2}/.test(cellTexts[1]);
+    if (!hasSeparateTimeColumn && (MONTH_NAMES.some((name) => firstCell.includes(name)) || firstCell.match(/\d{4}/))) {
+      // Format 1: Date and time in the first cell, e.g. "16 November 2025 - 02:35 PM"
+      const dashIndex = firstCell.indexOf(' - ');
+      if (dashIndex > 0) {
+        fields.dateStr = firstCell.substring(0, dashIndex).trim();
+        fields.timeStr = firstCell.substring(dashIndex + 3).trim();
+      } else {
+        const parts = firstCell.split(/\s+/);
+        if (parts.length >= 4) {
+          fields.dateStr = parts.slice(0, 3).join(' ');
+          fields.timeStr = parts.slice(3).join(' ');
+        } else {
+          fields.dateStr = firstCell;
+          fields.timeStr = '';
+        }
+      }
+
+      // Columns: 0=Date/Time, 1=Lat, 2=Lon, 3=Depth, 4=Magnitude, 5=Location
+      fields.latitude = parseNumber(cellTexts[1]);
+      fields.longitude = parseNumber(cellTexts[2]);
+      fields.depth = parseNumber(cellTexts[3]);
+      fields.magnitude = parseFloat(cellTexts[4]);
+      fields.place = cellTexts[5] || cellTexts.slice(5).join(' ');
+    } else {
+      // Format 2: Separate Date, Time, Lat, Lon, Depth, Magnitude, Location
+      fields.dateStr = cellTexts[0];
+      fields.timeStr = cellTexts[1] || '';
+
+      const val1 = parseFloat(cellTexts[2] || '0');
+      const val2 = parseFloat(cellTexts[3] || '0');
+      const val3 = parseFloat(cellTexts[4] || '0');
+      const val4 = parseFloat(cellTexts[5] || '0');
+
+      // Check which values are coordinates and which is magnitude
+      if (isPhilippineLatitude(val1) && isPhilippineLongitude(val2)) {
+        fields.latitude = val1;
+        fields.longitude = val2;
+        fields.depth = val3;
+        fields.magnitude = val4;
+      } else if (isPhilippineLatitude(val2) && isPhilippineLongitude(val1)) {
+        fields.latitude = val2;
+        fields.longitude = val1;
+        fields.depth = val3;
+        fields.magnitude = val4;
+      } else {
+        // Try all combinations
+        const values = [val1, val2, val3, val4].filter(v => !isNaN(v) && v !== 0);
+        for (let i = 0; i < values.length; i++) {
+          for (let j = 0; j < values.length; j++) {
+            if (i === j) continue;
+            if (isPhilippineLatitude(values[i]) && isPhilippineLongitude(values[j])) {
+              fields.latitude = values[i];
+              fields.longitude = values[j];
+              // Remaining values might be depth and magnitude
+              const remaining = values.filter((_, idx) => idx !== i && idx !== j);
+              if (remaining.length >= 1) fields.depth = remaining[0];
+              if (remaining.length >= 2) fields.magnitude = remaining[1];
+              break;
+            }
+          }
+          if (fields.latitude !== 0 && fields.longitude !== 0) break;
+        }
+      }
+
+      fields.place = cellTexts[cellTexts.length - 1] || 'Unknown';
+    }
+  } else if (cellTexts.length >= 5) {
+    // Date/Time, Lat, Lon, Depth, Magnitude or Date, Time, Lat, Lon, Magnitude
+    const firstCell = cellTexts[0];
+    if (firstCell.includes('November') || firstCell.match(/\d{4}/)) {
+      const dateTimeParts = firstCell.split(/\s+-\s+|\s+/);
+      fields.dateStr = dateTimeParts.slice(0, 3).join(' ');
+      fields.timeStr = dateTimeParts.slice(3).join(' ');
+
+      fields.latitude = parseFloat(cellTexts[1]);
+      fields.longitude = parseFloat(cellTexts[2]);
+      fields.depth = parseFloat(cellTexts[3]);
+      fields.magnitude = parseFloat(cellTexts[4]);
+      fields.place = 'Philippines';
+    } else {
+      fields.dateStr = cellTexts[0];
+      fields.timeStr = cellTexts[1] || '';
+      fields.latitude = parseFloat(cellTexts[2]);
+      fields.longitude = parseFloat(cellTexts[3]);
+      fields.magnitude = parseFloat(cellTexts[4]);
+      fields.place = 'Philippines';
+    }
+  } else {
+    // 3-4 cells: guess coordinates by their range
+    const potentialLats: number[] = [];
+    const potentialLons: number[] = [];
+
+    for (const text of cellTexts) {
+      const num = parseFloat(text);
+      if (isNaN(num)) continue;
+
+      if (isPhilippineLatitude(num)) {
+        potentialLats.push(num);
+      } else if (isPhilippineLongitude(num)) {
+        potentialLons.push(num);
+      } else if (num > 0 && num < 100) {
+        // Look for depth (usually positive number, but not coordinates)
+        if (fields.depth === 0) fields.depth = num;
+      }
+    }
+
+    if (potentialLats.length > 0) fields.latitude = potentialLats[0];
+    if (potentialLons.length > 0) fields.longitude = potentialLons[0];
+
+    if (!fields.dateStr) fields.dateStr = cellTexts[0];
+    if (!fields.timeStr) fields.timeStr = cellTexts[1] || '';
+    fields.place = cellTexts[cellTexts.length - 1] || 'Unknown';
+  }
+
+  return fields;
+}
+
+// Absolute URL of the row's event bulletin link, if it has one.
+// The Word-exported pages sometimes use Windows path separators in hrefs.
+function bulletinLink($: cheerio.CheerioAPI, row: Element, baseUrl?: string): string | undefined {
+  const href = $(row).find('a[href]').first().attr('href')?.trim().replace(/\\/g, '/');
+  if (!href || href.startsWith('#') || href.startsWith('mailto:')) return undefined;
+  if (!baseUrl) return href;
+  try {
+    return new URL(href, baseUrl).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+// Method 1: PHIVOLCS listing and monthly archive tables
+function parseTables($: cheerio.CheerioAPI, diagnostics: RowDiagnostic[], baseUrl?: string): PHIVOLCSEarthquake[] {
+  const earthquakes: PHIVOLCSEarthquake[] = [];
+  const seenIds = new Set<string>();
+
+  $('table').each((tableIndex, table) => {
+    // Only direct rows, so a layout table wrapping the data table isn't parsed twice
+    const rows = $(table).find('tr').filter((_, row) => $(row).closest('table')[0] === table);
+
+    rows.each((rowIndex, row) => {
+      const cells = $(row).children('td, th');
+      const cellTexts = cells.map((_, cell) => $(cell).text().replace(/\s+/g, ' ').trim()).get();
+      const reject = (reason: RowRejectReason, message?: string) => {
+        diagnostics.push({ tableIndex, rowIndex, cells: cellTexts, status: 'rejected', reason, message });
+      };
+
+      if (cells.length === 0) return;
+
+      // Skip header rows (usually have th elements or specific text)
+      const isHeader = $(row).children('th').length > 0 || cellTexts.some(text => HEADER_PATTERN.test(text));
+      if (isHeader) {
+        reject('header');
+        return;
+      }
+
+      // Need at least 3 cells (date, magnitude, location minimum)
+      if (cells.length < 3) {
+        reject('too-few-cells', `Only ${cells.length} cells (need at least 3)`);
+        return;
+      }
+
+      try {
+        const fields = extractRowFields(cellTexts);
+        const { magnitude } = fields;
+        let { latitude, longitude } = fields;
+
+        if (magnitude === 0 || isNaN(magnitude) || magnitude < 0 || magnitude > 10) {
+          reject('invalid-magnitude', 'No valid magnitude found');
+          return;
+        }
+
+        // Only reject coordinates that are completely out of bounds
+        if (latitude < 0 || latitude > 90 || longitude < 0 || longitude > 180) {
+          reject('invalid-coordinates', `Lat ${latitude}, Lon ${longitude}`);
+          return;
+        }
+        // If coordinates are 0,0 but we have other data, use default Philippines center
+        const coordinatesImputed = latitude === 0 && longitude === 0;
+        if (coordinatesImputed) {
+          ({ latitude, longitude } = PHILIPPINES_CENTER);
+        }
+
+        const time = parsePHTDateTime(fields.dateStr, fields.timeStr);
+        if (time === null) {
+          reject('unparseable-date', `"${fields.dateStr} ${fields.timeStr}"`.trim());
+          return;
+        }
+
+        const depth = fields.depth || 0;
+        const id = eventId({ time, latitude, longitude, depth, magnitude });
+        if (seenIds.has(id)) {
+          diagnostics.push({ tableIndex, rowIndex, cells: cellTexts, status: 'rejected', reason: 'duplicate', id });
+          return;
+        }
+        seenIds.add(id);
+
+        const place = fields.place || 'Unknown Location';
+        earthquakes.push({
+          id,
+          magnitude,
+          latitude: latitude || 0,
+          longitude: longitude || 0,
+          depth,
+          place,
+          location: parsePlace(place, { latitude, longitude }),
+          time,
+          url: bulletinLink($, row, baseUrl),
+          quality: assessQuality({ latitude, longitude, place }, { sourceMethod: 'table', coordinatesImputed }),
+        });
+        diagnostics.push({ tableIndex, rowIndex, cells: cellTexts, status: 'parsed', id });
+      } catch (error) {
+        reject('error', error instanceof Error ? error.message : String(error));
+      }
+    });
+  });
+
+  return earthquakes;
+}
+
+// Records without a parseable time are stamped with the scrape time so they can
+// still be shown, but that time is left out of their id: otherwise every scrape of
+// the same record would mint a new event
+const stableId = (quake: Omit<PHIVOLCSEarthquake, 'id'>, timeUnparsed: boolean) =>
+  eventId(timeUnparsed ? { ...quake, time: 0 } : quake);
+
+// Method 2: elements whose class or id mentions earthquakes
+function parseDivs($: cheerio.CheerioAPI): PHIVOLCSEarthquake[] {
+  const earthquakes: PHIVOLCSEarthquake[] = [];
+
+  $('[class*="earthquake"], [id*="earthquake"], [class*="quake"], [id*="quake"]').each((_, elem) => {
+    const text = $(elem).text();
+    const magnitudeMatch = text.match(/magnitude[:\s]+([\d.]+)/i);
+    const latMatch = text.match(/lat[itude]*[:\s]+([\d.]+)/i);
+    const lonMatch = text.match(/lon[gitude]*[:\s]+([\d.]+)/i);
+    const depthMatch = text.match(/depth[:\s]+([\d.]+)/i);
+
+    if (magnitudeMatch) {
+      const magnitude = parseFloat(magnitudeMatch[1]);
+      if (!isNaN(magnitude) && magnitude > 0 && magnitude < 10) {
+        const latitude = latMatch ? parseFloat(latMatch[1]) : 0;
+        const longitude = lonMatch ? parseFloat(lonMatch[1]) : 0;
+        const coordinatesImputed = !latitude && !longitude;
+        // These elements carry no date or place text
+        const quake = {
+          magnitude,
+          ...(coordinatesImputed ? PHILIPPINES_CENTER : { latitude, longitude }),
+          depth: depthMatch ? parseFloat(depthMatch[1]) : 0,
+          place: 'Philippines',
+          time: Date.now(),
+        };
+        const quality = assessQuality(quake, { sourceMethod: 'div', coordinatesImputed, timeUnparsed: true });
+        earthquakes.push({ id: stableId(quake, true), ...quake, quality });
+      }
+    }
+  });
+
+  return earthquakes;
+}
+
+// Method 3: JSON arrays embedded in script tags
+function parseScripts($: cheerio.CheerioAPI): PHIVOLCSEarthquake[] {
+  const earthquakes: PHIVOLCSEarthquake[] = [];
+
+  $('script').each((_, script) => {
+    const content = $(script).text() || '';
+    const jsonMatch = content.match(/\[.*?\{.*?magnitude.*?\}.*?\]/is);
+    if (!jsonMatch) return;
+
+    try {
+      const data = JSON.parse(jsonMatch[0]);
+      if (!Array.isArray(data)) return;
+      data.forEach((item: any) => {
+        if (item.magnitude || item.mag) {
+          const latitude = item.latitude || item.lat || 0;
+          const longitude = item.longitude || item.lon || item.lng || 0;
+          const coordinatesImputed = !latitude && !longitude;
+          const parsedTime = item.time ? new Date(item.time).getTime() : NaN;
+          const timeUnparsed = isNaN(parsedTime);
+          const quake = {
+            magnitude: item.magnitude || item.mag || 0,
+            ...(coordinatesImputed ? PHILIPPINES_CENTER : { latitude, longitude }),
+            depth: item.depth || 0,
+            place: item.place || item.location || 'Philippines',
+            time: timeUnparsed ? Date.now() : parsedTime,
+          };
+          const quality = assessQuality(quake, { sourceMethod: 'script', coordinatesImputed, timeUnparsed });
+          earthquakes.push({ id: stableId(quake, timeUnparsed), ...quake, quality });
+        }
+      });
+    } catch (e) {
+      // Not valid JSON, continue
+    }
+  });
+
+  return earthquakes;
+}
+
+// Parse PHIVOLCS HTML (latest page or monthly archive) into earthquakes.
+// Pure and browser-free: tries tables first, then earthquake-tagged elements,
+// then JSON in script tags, and reports why each table row was kept or rejected.
+// Bulletin links in table rows are resolved against baseUrl (the page's URL).
+export function parsePHIVOLCSHtml(html: string, baseUrl?: string): ParseResult {
+  const $ = cheerio.load(html);
+  const diagnostics: RowDiagnostic[] = [];
+  const tableCount = $('table').length;
+
+  const fromTables = parseTables($, diagnostics, baseUrl);
+  if (fromTables.length > 0) {
+    return { earthquakes: fromTables, diagnostics, method: 'table', tableCount };
+  }
+
+  const fromDivs = parseDivs($);
+  if (fromDivs.length > 0) {
+    return { earthquakes: fromDivs, diagnostics, method: 'div', tableCount };
+  }
+
+  const fromScripts = parseScripts($);
+  if (fromScripts.length > 0) {
+    return { earthquakes: fromScripts, diagnostics, method: 'script', tableCount };
+  }
+
+  return { earthquakes: [], diagnostics, method: 'none', tableCount };
+}
+
+// Summarize row diagnostics as counts per rejection reason
+export function summarizeDiagnostics(diagnostics: RowDiagnostic[]): Record<string, number> {
+  const summary: Record<string, number> = {};
+  for (const diagnostic of diagnostics) {
+    const key = diagnostic.status === 'parsed' ? 'parsed' : diagnostic.reason || 'rejected';
+    summary[key] = (summary[key] || 0) + 1;
+  }
+  return summary;
+}
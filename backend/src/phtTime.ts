@@ -0,0 +1,159 @@
+// PHIVOLCS publishes all times in Philippine Standard Time (UTC+8, no DST).
+// These helpers never touch the server's local timezone.
+export const PHT_OFFSET_MS = 8 * 60 * 60 * 1000;
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+function monthFromName(name: string): number | null {
+  const lower = name.toLowerCase().replace(/\.$/, '');
+  if (lower.length < 3) return null;
+  const index = MONTHS.findIndex((m) => m.startsWith(lower));
+  return index === -1 ? null : index + 1;
+}
+
+// Parse "02:35 PM", "2:35:10 pm" or "14:35" into 24-hour parts
+function parseClock(timeStr: string): { hour: number; minute: number; second: number } | null {
+  const match = timeStr.trim().match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AP]\.?M\.?)?$/i);
+  if (!match) return null;
+
+  let hour = parseInt(match[1], 10);
+  const minute = parseInt(match[2], 10);
+  const second = match[3] ? parseInt(match[3], 10) : 0;
+  const meridiem = match[4]?.replace(/\./g, '').toUpperCase();
+
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    if (meridiem === 'PM' && hour !== 12) hour += 12;
+    if (meridiem === 'AM' && hour === 12) hour = 0;
+  }
+  if (hour > 23 || minute > 59 || second > 59) return null;
+
+  return { hour, minute, second };
+}
+
+// Parse "16 November 2025", "November 16, 2025", "2025-11-16" or "11/16/2025"
+function parseCalendarDate(dateStr: string): { year: number; month: number; day: number } | null {
+  const text = dateStr.trim().replace(/,/g, ' ').replace(/\s+/g, ' ');
+  let year: number;
+  let month: number | null;
+  let day: number;
+
+  let match = text.match(/^(\d{1,2}) ([A-Za-z.]+) (\d{4})$/);
+  if (match) {
+    day = parseInt(match[1], 10);
+    month = monthFromName(match[2]);
+    year = parseInt(match[3], 10);
+  } else if ((match = text.match(/^([A-Za-z.]+) (\d{1,2}) (\d{4})$/))) {
+    month = monthFromName(match[1]);
+    day = parseInt(match[2], 10);
+    year = parseInt(match[3], 10);
+  } else if ((match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/))) {
+    year = parseInt(match[1], 10);
+    month = parseInt(match[2], 10);
+    day = parseInt(match[3], 10);
+  } else if ((match = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/))) {
+    month = parseInt(match[1], 10);
+    day = parseInt(match[2], 10);
+    year = parseInt(match[3], 10);
+  } else {
+    return null;
+  }
+
+  if (!month || month < 1 || month > 12) return null;
+  // Reject impossible days such as 31 February
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day < 1 || day > daysInMonth) return null;
+
+  return { year, month, day };
+}
+
+// Parse a PHIVOLCS date/time as Philippine Standard Time and return a UTC epoch (ms).
+// Accepts the combined "16 November 2025 - 02:35 PM" form in dateStr, or the date
+// and time split across dateStr/timeStr. Returns null when the input can't be
+// parsed; callers must never substitute "now".
+export function parsePHTDateTime(dateStr: string, timeStr: string = ''): number | null {
+  let datePart = (dateStr || '').trim();
+  let timePart = (timeStr || '').trim();
+
+  const dashIndex = datePart.indexOf(' - ');
+  if (dashIndex > 0) {
+    timePart = datePart.substring(dashIndex + 3).trim() || timePart;
+    datePart = datePart.substring(0, dashIndex).trim();
+  } else if (!timePart) {
+    // "16 November 2025 02:35 PM" or "2025-11-16 14:35" in a single cell
+    const match = datePart.match(/^(.*?)[\sT]+(\d{1,2}:\d{2}(?::\d{2})?(?:\s*[AP]\.?M\.?)?)$/i);
+    if (match) {
+      datePart = match[1].trim();
+      timePart = match[2].trim();
+    }
+  }
+
+  const date = parseCalendarDate(datePart);
+  if (!date) return null;
+
+  const clock = timePart ? parseClock(timePart) : { hour: 0, minute: 0, second: 0 };
+  if (!clock) return null;
+
+  return Date.UTC(date.year, date.month - 1, date.day, clock.hour, clock.minute, clock.second) - PHT_OFFSET_MS;
+}
+
+// Calendar fields of a UTC epoch as seen in Philippine Standard Time
+export function toPHTCalendar(time: number): { year: number; month: number; day: number } {
+  const shifted = new Date(time + PHT_OFFSET_MS);
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  };
+}
+
+// UTC epoch bounds [start, end) of a PHT calendar month, or the whole year when month is omitted
+export function phtPeriodRange(year: number, month?: number): { start: number; end: number } {
+  const start = Date.UTC(year, month ? month - 1 : 0, 1) - PHT_OFFSET_MS;
+  const end = (month ? Date.UTC(year, month, 1) : Date.UTC(year + 1, 0, 1)) - PHT_OFFSET_MS;
+  return { start, end };
+}
+
+// Parse a date-range boundary. "YYYY-MM-DD" is a whole PHT calendar day: as a start
+// it means 00:00 PHT, as an end it includes the entire day. Full ISO timestamps
+// ("2025-11-16T06:35:00Z") are used as exact bounds. Returns null if invalid.
+export function parseRangeBoundary(value: string, edge: 'start' | 'end'): number | null {
+  const dayMatch = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (dayMatch) {
+    const year = parseInt(dayMatch[1], 10);
+    const month = parseInt(dayMatch[2], 10);
+    const day = parseInt(dayMatch[3], 10);
+    const time = Date.UTC(year, month - 1, day + (edge === 'end' ? 1 : 0)) - PHT_OFFSET_MS;
+    // Reject rollovers such as 2025-02-31
+    const check = toPHTCalendar(Date.UTC(year, month - 1, day) - PHT_OFFSET_MS);
+    return check.month === month && check.day === day ? time : null;
+  }
+
+  const time = Date.parse(value);
+  return isNaN(time) ? null : time;
+}
+
+// PHT calendar months touched by [start, end), oldest first
+export function phtMonthsBetween(start: number, end: number): Array<{ year: number; month: number }> {
+  const first = toPHTCalendar(start);
+  const last = toPHTCalendar(end - 1);
+  const months: Array<{ year: number; month: number }> = [];
+  let { year, month } = first;
+  while (year < last.year || (year === last.year && month <= last.month)) {
+    months.push({ year, month });
+    month++;
+    if (month > 12) {
+      month = 1;
+      year++;
+    }
+  }
+  return months;
+}
+
+// ISO 8601 timestamp in Philippine Standard Time, e.g. "2025-11-16T14:35:00+08:00"
+export function toPHTISOString(time: number): string {
+  return new Date(time + PHT_OFFSET_MS).toISOString().replace(/\.\d{3}Z$/, '+08:00');
+}
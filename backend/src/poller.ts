@@ -0,0 +1,140 @@
+export interface PollerOptions<T> {
+  name: string;
+  intervalMs: number;
+  jitterMs: number;
+  maxBackoffMs: number;
+  task: () => Promise<T>;
+  describe?: (result: T) => unknown;
+}
+
+export interface PollStatus {
+  name: string;
+  enabled: boolean;
+  running: boolean;
+  intervalMs: number;
+  lastRunAt: string | null;
+  lastSuccessAt: string | null;
+  lastDurationMs: number | null;
+  lastResult: unknown;
+  lastErrorAt: string | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+  nextRunAt: string | null;
+}
+
+const toISO = (time: number | null) => (time === null ? null : new Date(time).toISOString());
+
+// Runs a task on a fixed interval with random jitter, exponential backoff after
+// failures, and a single-flight lock: a run requested while another is in
+// progress shares the in-flight promise instead of starting a second one.
+export class Poller<T> {
+  private timer: NodeJS.Timeout | null = null;
+  private inFlight: Promise<T> | null = null;
+  private enabled = false;
+  private lastRunAt: number | null = null;
+  private lastSuccessAt: number | null = null;
+  private lastDurationMs: number | null = null;
+  private lastResult: unknown = null;
+  private lastErrorAt: number | null = null;
+  private lastError: string | null = null;
+  private consecutiveFailures = 0;
+  private nextRunAt: number | null = null;
+
+  constructor(private readonly options: PollerOptions<T>) {}
+
+  get hasSucceeded(): boolean {
+    return this.lastSuccessAt !== null;
+  }
+
+  start(): void {
+    if (this.enabled) return;
+    this.enabled = true;
+    console.log(`⏱️  ${this.options.name}: polling every ${this.options.intervalMs}ms (±${this.options.jitterMs}ms jitter)`);
+    this.schedule(0);
+  }
+
+  stop(): void {
+    this.enabled = false;
+    this.nextRunAt = null;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Run now, or join the run that is already in progress
+  runOnce(): Promise<T> {
+    if (this.inFlight) {
+      return this.inFlight;
+    }
+
+    this.inFlight = this.execute().finally(() => {
+      this.inFlight = null;
+    });
+    return this.inFlight;
+  }
+
+  status(): PollStatus {
+    return {
+      name: this.options.name,
+      enabled: this.enabled,
+      running: this.inFlight !== null,
+      intervalMs: this.options.intervalMs,
+      lastRunAt: toISO(this.lastRunAt),
+      lastSuccessAt: toISO(this.lastSuccessAt),
+      lastDurationMs: this.lastDurationMs,
+      lastResult: this.lastResult,
+      lastErrorAt: toISO(this.lastErrorAt),
+      lastError: this.lastError,
+      consecutiveFailures: this.consecutiveFailures,
+      nextRunAt: toISO(this.nextRunAt),
+    };
+  }
+
+  private async execute(): Promise<T> {
+    const startTime = Date.now();
+    this.lastRunAt = startTime;
+
+    try {
+      const result = await this.options.task();
+      this.lastSuccessAt = Date.now();
+      this.lastDurationMs = this.lastSuccessAt - startTime;
+      this.lastResult = this.options.describe ? this.options.describe(result) : null;
+      this.consecutiveFailures = 0;
+      return result;
+    } catch (error) {
+      this.lastErrorAt = Date.now();
+      this.lastDurationMs = this.lastErrorAt - startTime;
+      this.lastError = error instanceof Error ? error.message : String(error);
+      this.consecutiveFailures++;
+      throw error;
+    }
+  }
+
+  private nextDelay(): number {
+    const { intervalMs, jitterMs, maxBackoffMs } = this.options;
+    const base = this.consecutiveFailures > 0
+      ? Math.min(intervalMs * 2 ** this.consecutiveFailures, Math.max(maxBackoffMs, intervalMs))
+      : intervalMs;
+    const jitter = (Math.random() * 2 - 1) * jitterMs;
+    return Math.max(1000, Math.round(base + jitter));
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.enabled) return;
+    this.nextRunAt = Date.now() + delayMs;
+
+    this.timer = setTimeout(async () => {
+      this.timer = null;
+      this.nextRunAt = null;
+      try {
+        await this.runOnce();
+      } catch (error) {
+        console.error(`❌ ${this.options.name} failed (${this.consecutiveFailures} in a row):`, error instanceof Error ? error.message : error);
+      }
+      this.schedule(this.nextDelay());
+    }, delayMs);
+    // Don't keep the process alive just for polling
+    this.timer.unref();
+  }
+}
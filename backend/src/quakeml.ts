@@ -0,0 +1,67 @@
+import type { CatalogEntry } from "./catalog.js";
+
+// QuakeML 1.2 Basic Event Description (https://quake.ethz.ch/quakeml). Each event
+// has one origin and one magnitude, both attributed to PHIVOLCS. Depths are in
+// metres as the schema requires.
+
+export const QUAKEML_AGENCY_ID = 'PHIVOLCS';
+const RESOURCE_PREFIX = 'smi:ph.gov.dost.phivolcs/earthquake';
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+const creationInfo = (time: number, indent: string) =>
+  `${indent}<creationInfo>\n` +
+  `${indent}  <agencyID>${QUAKEML_AGENCY_ID}</agencyID>\n` +
+  `${indent}  <creationTime>${new Date(time).toISOString()}</creationTime>\n` +
+  `${indent}</creationInfo>`;
+
+function toEventXml(entry: CatalogEntry): string {
+  const eventId = `${RESOURCE_PREFIX}/event/${entry.id}`;
+  const originId = `${RESOURCE_PREFIX}/origin/${entry.id}`;
+  const magnitudeId = `${RESOURCE_PREFIX}/magnitude/${entry.id}`;
+
+  return [
+    `    <event publicID="${escapeXml(eventId)}">`,
+    `      <preferredOriginID>${escapeXml(originId)}</preferredOriginID>`,
+    `      <preferredMagnitudeID>${escapeXml(magnitudeId)}</preferredMagnitudeID>`,
+    `      <type>earthquake</type>`,
+    `      <description>`,
+    `        <text>${escapeXml(entry.place)}</text>`,
+    `        <type>region name</type>`,
+    `      </description>`,
+    `      <origin publicID="${escapeXml(originId)}">`,
+    `        <time><value>${new Date(entry.time).toISOString()}</value></time>`,
+    `        <latitude><value>${entry.latitude}</value></latitude>`,
+    `        <longitude><value>${entry.longitude}</value></longitude>`,
+    `        <depth><value>${Math.round(entry.depth * 1000)}</value></depth>`,
+    creationInfo(entry.lastUpdated ?? entry.time, '        '),
+    `      </origin>`,
+    `      <magnitude publicID="${escapeXml(magnitudeId)}">`,
+    `        <mag><value>${entry.magnitude}</value></mag>`,
+    `        <originID>${escapeXml(originId)}</originID>`,
+    creationInfo(entry.lastUpdated ?? entry.time, '        '),
+    `      </magnitude>`,
+    creationInfo(entry.firstSeen ?? entry.time, '      '),
+    `    </event>`,
+  ].join('\n');
+}
+
+export function toQuakeML(entries: CatalogEntry[], generated: number = Date.now()): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<q:quakeml xmlns="http://quakeml.org/xmlns/bed/1.2" xmlns:q="http://quakeml.org/xmlns/quakeml/1.2">',
+    `  <eventParameters publicID="${RESOURCE_PREFIX}/eventParameters/${generated}">`,
+    creationInfo(generated, '    '),
+    ...entries.map(toEventXml),
+    '  </eventParameters>',
+    '</q:quakeml>',
+    '',
+  ].join('\n');
+}
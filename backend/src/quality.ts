@@ -0,0 +1,51 @@
+import type { DataQuality, PHIVOLCSEarthquake } from "./types.js";
+
+// What the parser had to guess for a record. PHIVOLCS rows that come through
+// cleanly carry no flags; anything substituted or out of place is flagged here
+// instead of being passed off as measured data.
+
+// Used when a row has no usable coordinates, so it still lands on the map
+export const PHILIPPINES_CENTER = { latitude: 12.8797, longitude: 121.7740 };
+
+// PHIVOLCS' area of responsibility: 4-21°N, 116-127°E, with some tolerance
+export const isPhilippineLatitude = (value: number) => value >= 3 && value <= 22;
+export const isPhilippineLongitude = (value: number) => value >= 115 && value <= 128;
+
+// Placeholders the fallback parsers use when a record has no place text
+const PLACEHOLDER_PLACES = new Set(['', 'philippines', 'unknown', 'unknown location']);
+
+export interface QualityInput {
+  sourceMethod: DataQuality['sourceMethod'];
+  coordinatesImputed?: boolean;
+  timeUnparsed?: boolean;
+}
+
+// Flags for a parsed record. Coordinate and time substitution is only known to the
+// parser, so it reports those; place and region checks are derived from the record.
+export function assessQuality(
+  eq: Pick<PHIVOLCSEarthquake, 'latitude' | 'longitude' | 'place'>,
+  { sourceMethod, coordinatesImputed = false, timeUnparsed = false }: QualityInput,
+): DataQuality {
+  return {
+    sourceMethod,
+    coordinatesImputed,
+    timeUnparsed,
+    placeImputed: PLACEHOLDER_PLACES.has(eq.place.trim().toLowerCase()),
+    outOfRegion: !coordinatesImputed && !(isPhilippineLatitude(eq.latitude) && isPhilippineLongitude(eq.longitude)),
+  };
+}
+
+// Best guess for catalog entries stored before records carried quality flags.
+// Those all came from the listing tables, and the only substitution then was
+// the Philippines center for 0,0 coordinates.
+export function inferQuality(eq: PHIVOLCSEarthquake): DataQuality {
+  return assessQuality(eq, {
+    sourceMethod: 'table',
+    coordinatesImputed: eq.latitude === PHILIPPINES_CENTER.latitude && eq.longitude === PHILIPPINES_CENTER.longitude,
+  });
+}
+
+// Whether anything about the record was guessed or looks wrong
+export function isLowQuality(quality: DataQuality | undefined): boolean {
+  return !!quality && (quality.coordinatesImputed || quality.timeUnparsed || quality.placeImputed || quality.outOfRegion);
+}
@@ -0,0 +1,222 @@
+import path from "path";
+import { pathToFileURL } from "url";
+import { getCatalog } from "./catalog.js";
+import { parsePHIVOLCSHtml } from "./parser.js";
+import { parseRangeBoundary } from "./phtTime.js";
+import { DEFAULT_SNAPSHOT_DIR, SnapshotArchive, SnapshotRecord } from "./snapshots.js";
+import type { PHIVOLCSEarthquake } from "./types.js";
+
+// Re-run the current parser over archived PHIVOLCS pages and report how the
+// resulting earthquakes differ from what was parsed when each page was fetched.
+//
+//   npm run reparse -- [--url EQLatest-Monthly/2024] [--since 2024-01-01] [--until 2024-12-31]
+//                      [--dir data/snapshots] [--write] [--apply]
+//
+// --write stores the new results as the baseline for the next run; --apply
+// upserts them into the catalog, so a parser fix reaches events scraped before it
+// (events PHIVOLCS revised after the snapshot was fetched keep their newer values).
+
+export interface ReparseOptions {
+  url?: string;
+  since?: number;
+  until?: number;
+  dir: string;
+  write: boolean;
+  apply: boolean;
+}
+
+export interface FieldChange {
+  id: string;
+  fields: string[];
+  before: PHIVOLCSEarthquake;
+  after: PHIVOLCSEarthquake;
+}
+
+export interface EventDiff {
+  added: PHIVOLCSEarthquake[];
+  removed: PHIVOLCSEarthquake[];
+  changed: FieldChange[];
+}
+
+export interface SnapshotReport {
+  hash: string;
+  url: string;
+  // Fetches of this exact content
+  fetches: number;
+  lastFetchedAt: number;
+  diff: EventDiff;
+  error?: string;
+}
+
+const COMPARED_FIELDS: Array<keyof PHIVOLCSEarthquake> = [
+  'time', 'magnitude', 'latitude', 'longitude', 'depth', 'place', 'url', 'location', 'quality',
+];
+
+// Rows re-parsed within this of each other are the same event with corrected values
+const SAME_EVENT_TIME_MS = 2 * 60 * 1000;
+
+// Pair old and new events by id, then by bulletin link, then by origin time, and
+// list the fields that differ
+export function diffEvents(before: PHIVOLCSEarthquake[], after: PHIVOLCSEarthquake[]): EventDiff {
+  const unmatched = new Set(before);
+  const pairs: Array<[PHIVOLCSEarthquake, PHIVOLCSEarthquake]> = [];
+  const added: PHIVOLCSEarthquake[] = [];
+
+  const matchers: Array<(old: PHIVOLCSEarthquake, eq: PHIVOLCSEarthquake) => boolean> = [
+    (old, eq) => old.id === eq.id,
+    (old, eq) => !!old.url && old.url === eq.url,
+    (old, eq) => Math.abs(old.time - eq.time) <= SAME_EVENT_TIME_MS,
+  ];
+  let pending = after;
+  for (const matches of matchers) {
+    const rest: PHIVOLCSEarthquake[] = [];
+    for (const eq of pending) {
+      const old = Array.from(unmatched).find((candidate) => matches(candidate, eq));
+      if (old) {
+        unmatched.delete(old);
+        pairs.push([old, eq]);
+      } else {
+        rest.push(eq);
+      }
+    }
+    pending = rest;
+  }
+  added.push(...pending);
+
+  const changed: FieldChange[] = [];
+  for (const [old, eq] of pairs) {
+    const fields = COMPARED_FIELDS.filter((field) => JSON.stringify(old[field]) !== JSON.stringify(eq[field]));
+    if (fields.length > 0) {
+      changed.push({ id: old.id, fields, before: old, after: eq });
+    }
+  }
+  return { added, removed: Array.from(unmatched), changed };
+}
+
+const hasChanges = ({ added, removed, changed }: EventDiff) => added.length + removed.length + changed.length > 0;
+
+const describe = (eq: PHIVOLCSEarthquake) =>
+  `${new Date(eq.time).toISOString()} M${eq.magnitude} ${eq.place}`;
+
+const formatValue = (value: unknown) => (typeof value === 'object' ? JSON.stringify(value) : String(value));
+
+function printReport(report: SnapshotReport): void {
+  const { added, removed, changed } = report.diff;
+  const label = `${report.url} (${report.hash.slice(0, 12)}, ${report.fetches} fetch${report.fetches === 1 ? '' : 'es'}, last ${new Date(report.lastFetchedAt).toISOString()})`;
+  if (report.error) {
+    console.log(`❌ ${label}: ${report.error}`);
+    return;
+  }
+  if (!hasChanges(report.diff)) return;
+
+  console.log(`\n🔁 ${label}: +${added.length} −${removed.length} ~${changed.length}`);
+  for (const eq of added) console.log(`   + ${describe(eq)}`);
+  for (const eq of removed) console.log(`   − ${describe(eq)}`);
+  for (const { id, fields, before, after } of changed) {
+    console.log(`   ~ ${id}`);
+    for (const field of fields) {
+      console.log(`       ${field}: ${formatValue(before[field])} → ${formatValue(after[field])}`);
+    }
+  }
+}
+
+export async function runReparse(options: ReparseOptions): Promise<SnapshotReport[]> {
+  const archive = new SnapshotArchive(options.dir);
+  const records = await archive.list({ url: options.url, since: options.since, until: options.until });
+
+  // The same content is parsed once, however often it was fetched
+  const byHash = new Map<string, SnapshotRecord[]>();
+  for (const record of records) {
+    const fetches = byHash.get(record.hash) || [];
+    fetches.push(record);
+    byHash.set(record.hash, fetches);
+  }
+  console.log(`🗄️  Re-parsing ${byHash.size} snapshots (${records.length} fetches) from ${options.dir}`);
+
+  const catalog = options.apply ? getCatalog() : null;
+  const reports: SnapshotReport[] = [];
+  for (const [hash, fetches] of byHash) {
+    const last = fetches[fetches.length - 1];
+    const report: SnapshotReport = {
+      hash,
+      url: last.url,
+      fetches: fetches.length,
+      lastFetchedAt: last.fetchedAt,
+      diff: { added: [], removed: [], changed: [] },
+    };
+    reports.push(report);
+
+    try {
+      const parsed = parsePHIVOLCSHtml(await archive.read(hash), last.url);
+      const previous = await archive.readResult(hash);
+      report.diff = diffEvents(previous?.earthquakes || [], parsed.earthquakes);
+      printReport(report);
+      if (!hasChanges(report.diff)) continue;
+
+      if (options.write) {
+        await archive.writeResult(hash, { parsedAt: Date.now(), method: parsed.method, earthquakes: parsed.earthquakes });
+      }
+      if (catalog) {
+        // Removed events stay in the catalog; only what the parser finds now is upserted,
+        // as of the fetch, so later revisions aren't rolled back
+        await catalog.upsert(parsed.earthquakes, last.fetchedAt);
+      }
+    } catch (error) {
+      report.error = error instanceof Error ? error.message : String(error);
+      printReport(report);
+    }
+  }
+
+  const changedReports = reports.filter((report) => hasChanges(report.diff));
+  const total = (key: keyof EventDiff) => changedReports.reduce((sum, report) => sum + report.diff[key].length, 0);
+  console.log(`\n📋 ${changedReports.length} of ${reports.length} snapshots parse differently: +${total('added')} −${total('removed')} ~${total('changed')} events`);
+  if (changedReports.length > 0) {
+    if (options.write) console.log('💾 Stored the new results as the baseline');
+    if (catalog) console.log(`📚 Upserted the new results; the catalog holds ${catalog.size} earthquakes`);
+  }
+  return reports;
+}
+
+export function parseArgs(argv: string[]): ReparseOptions {
+  const options: ReparseOptions = {
+    dir: DEFAULT_SNAPSHOT_DIR,
+    write: false,
+    apply: false,
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const next = () => {
+      const value = argv[++i];
+      if (value === undefined) throw new Error(`Missing value for ${arg}`);
+      return value;
+    };
+    const date = (edge: 'start' | 'end') => {
+      const value = next();
+      const time = parseRangeBoundary(value, edge);
+      if (time === null) throw new Error(`Invalid date "${value}" for ${arg}, expected YYYY-MM-DD or an ISO timestamp`);
+      return time;
+    };
+
+    switch (arg) {
+      case '--url': options.url = next(); break;
+      case '--since': options.since = date('start'); break;
+      case '--until': options.until = date('end'); break;
+      case '--dir': options.dir = path.resolve(next()); break;
+      case '--write': options.write = true; break;
+      case '--apply': options.apply = true; break;
+      default: throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  return options;
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] || '').href) {
+  try {
+    const reports = await runReparse(parseArgs(process.argv.slice(2)));
+    process.exitCode = reports.some((report) => report.error) ? 1 : 0;
+  } catch (error) {
+    console.error('❌ Reparse failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  }
+}
@@ -1,14 +1,118 @@
 import express from 'express';
 import cors from 'cors';
-import { scrapePHIVOLCS } from './scraper.js';
+import { abortable, disconnectSignal } from './abort.js';
+import { getBrowserPool } from './browser.js';
+import { getBulletinFetcher } from './bulletin.js';
+import { getCatalog } from './catalog.js';
+import { TtlCache, CacheResult } from './cache.js';
+import {
+  BadRequestError,
+  EarthquakesRequest,
+  EarthquakesResponse,
+  loadEarthquakeDetail,
+  loadEarthquakes,
+  parseEarthquakesRequest,
+  ResponseFormat,
+  sourceFormatHeaders,
+} from './earthquakesApi.js';
+import { ingest, ingestEvents, IngestResult } from './ingest.js';
+import { envNumber } from './env.js';
+import { healthSummary, PROMETHEUS_CONTENT_TYPE, registry } from './metrics.js';
+import { Poller } from './poller.js';
+import { getSnapshotArchive } from './snapshots.js';
+import { getSourceFormatMonitor, SourceFormatChangedError } from './sourceFormat.js';
+import { EarthquakeStream } from './stream.js';
+import { parseSubscription, WebhookDispatcher, WebhookSubscription } from './webhooks.js';
+
+const catalog = getCatalog();
+
+// Background ingestion of the PHIVOLCS latest page; requests read its last completed result
+const latestPoller = new Poller<IngestResult>({
+  name: 'PHIVOLCS latest poller',
+  intervalMs: envNumber('POLL_INTERVAL_MS', 2 * 60 * 1000),
+  jitterMs: envNumber('POLL_JITTER_MS', 15 * 1000),
+  maxBackoffMs: envNumber('POLL_MAX_BACKOFF_MS', 30 * 60 * 1000),
+  task: () => ingest(),
+  describe: (result) => ({
+    scraped: result.scraped,
+    created: result.created.length,
+    updated: result.updated.length,
+  }),
+});
+
+// Pushes quake.created / quake.updated to SSE clients as ingestion finds them
+const stream = new EarthquakeStream({
+  maxEventAgeMs: envNumber('STREAM_MAX_EVENT_AGE_MS', 24 * 60 * 60 * 1000),
+});
+stream.attach();
+
+// Notifies webhook subscribers about new/revised quakes that match their rules
+const webhooks = new WebhookDispatcher({
+  maxAttempts: envNumber('WEBHOOK_MAX_ATTEMPTS', 5),
+  retryBaseMs: envNumber('WEBHOOK_RETRY_BASE_MS', 2000),
+  maxEventAgeMs: envNumber('WEBHOOK_MAX_EVENT_AGE_MS', 24 * 60 * 60 * 1000),
+});
+ingestEvents.on('ingested', (result: IngestResult) => {
+  webhooks.handle(result).catch((error) => {
+    console.error('❌ Webhook dispatch failed:', error instanceof Error ? error.message : error);
+  });
+});
 
 const app = express();
-app.use(cors());
+// Let browser clients read the pagination and data-source headers
+app.use(cors({ exposedHeaders: ['X-Total-Count', 'X-Data-Source', 'X-Range-Months', 'X-Range-Months-Failed', 'X-Cache', 'X-Source-Format', 'ETag'] }));
 app.use(express.json());
 
-// Health check endpoint
+// Values owned by the server's own components, read whenever /metrics is scraped
+registry.gauge('phivolcs_catalog_size', 'Earthquakes in the catalog', (gauge) => gauge.set(catalog.size));
+registry.gauge('phivolcs_bulletins_queued', 'Bulletin pages waiting to be fetched', (gauge) => gauge.set(getBulletinFetcher().queued));
+registry.gauge('phivolcs_stream_clients', 'Connected /api/earthquakes/stream clients', (gauge) => gauge.set(stream.clientCount));
+registry.gauge('phivolcs_browser_pool_browsers', 'Headless browsers running in the pool', (gauge) => {
+  gauge.set(getBrowserPool()?.stats().browsers ?? 0);
+});
+registry.gauge('phivolcs_browser_pool_pages', 'Pooled browser pages by state (active or idle), and requests waiting for one', (gauge) => {
+  const stats = getBrowserPool()?.stats();
+  gauge.set(stats?.activePages ?? 0, { state: 'active' });
+  gauge.set(stats?.idlePages ?? 0, { state: 'idle' });
+  gauge.set(stats?.waiting ?? 0, { state: 'waiting' });
+});
+registry.gauge('phivolcs_poll_consecutive_failures', 'Failed polls of the latest page since the last success', (gauge) => {
+  gauge.set(latestPoller.status().consecutiveFailures);
+});
+
+// Health check endpoint, with a summary of the scraper metrics
 app.get('/health', (req, res) => {
-  res.json({ status: 'ok', message: 'PHIVOLCS Scraper API is running' });
+  const scraper = healthSummary();
+  const sourceFormat = getSourceFormatMonitor().status();
+  let message = 'PHIVOLCS Scraper API is running';
+  if (sourceFormat.status === 'changed') {
+    message = 'PHIVOLCS Scraper API is running, but the PHIVOLCS page format has changed';
+  } else if (scraper.status !== 'ok') {
+    message = 'PHIVOLCS Scraper API is running, but the last scrape failed or found no earthquake table';
+  }
+  res.json({
+    status: sourceFormat.status === 'changed' ? 'degraded' : scraper.status,
+    message,
+    scraper,
+    sourceFormat,
+  });
+});
+
+// Prometheus scrape endpoint
+app.get('/metrics', (req, res) => {
+  res.setHeader('Content-Type', PROMETHEUS_CONTENT_TYPE);
+  res.send(registry.render());
+});
+
+// Background poll status (last success, last error, next run)
+app.get('/api/status', (req, res) => {
+  res.json({
+    poller: latestPoller.status(),
+    catalog: { size: catalog.size },
+    stream: { clients: stream.clientCount },
+    bulletins: { queued: getBulletinFetcher().queued },
+    browserPool: getBrowserPool()?.stats() ?? null,
+  });
 });
 
 // Simple test endpoint
@@ -20,33 +124,69 @@ app.get('/api/test', (req, res) => {
   });
 });
 
-// Debug endpoint to see raw HTML
-app.get('/api/debug/html', async (req, res) => {
+// Archived PHIVOLCS pages (see snapshots.ts), newest first
+app.get('/api/debug/snapshots', async (req, res) => {
+  const archive = getSnapshotArchive();
+  if (!archive) {
+    res.status(404).json({ error: 'Not found', message: 'The snapshot archive is disabled (SNAPSHOTS_ENABLED=false)' });
+    return;
+  }
   try {
-    const puppeteer = await import('puppeteer');
-    const browser = await puppeteer.default.launch({ headless: true });
-    const page = await browser.newPage();
-    
-    await page.goto('https://earthquake.phivolcs.dost.gov.ph/', {
-      waitUntil: 'networkidle2',
-      timeout: 60000
+    const url = typeof req.query.url === 'string' ? req.query.url : undefined;
+    const snapshots = await archive.list({ url });
+    res.json(snapshots.reverse().slice(0, 100));
+  } catch (error) {
+    res.status(500).json({
+      error: 'Failed to list snapshots',
+      message: error instanceof Error ? error.message : 'Unknown error'
     });
-    
-    await new Promise(resolve => setTimeout(resolve, 5000));
-    
-    const html = await page.content();
-    const text = await page.evaluate(() => {
-      // @ts-ignore
-      return document.body.innerText;
+  }
+});
+
+// Raw HTML of an archived page
+app.get('/api/debug/snapshots/:hash', async (req, res) => {
+  const archive = getSnapshotArchive();
+  if (!archive) {
+    res.status(404).json({ error: 'Not found', message: 'The snapshot archive is disabled (SNAPSHOTS_ENABLED=false)' });
+    return;
+  }
+  try {
+    res.type('html').send(await archive.read(req.params.hash));
+  } catch (error) {
+    const notFound = (error as NodeJS.ErrnoException)?.code === 'ENOENT'
+      || (error instanceof Error && /Invalid snapshot hash/.test(error.message));
+    if (notFound) {
+      res.status(404).json({ error: 'Not found', message: `No snapshot with hash "${req.params.hash}"` });
+      return;
+    }
+    res.status(500).json({
+      error: 'Failed to read snapshot',
+      message: error instanceof Error ? error.message : 'Unknown error'
     });
-    
-    await browser.close();
+  }
+});
+
+// Debug endpoint to see the raw HTML of the last scraped page, from the snapshot archive
+app.get('/api/debug/html', async (req, res) => {
+  try {
+    const archive = getSnapshotArchive();
+    if (!archive) {
+      throw new Error('The snapshot archive is disabled (SNAPSHOTS_ENABLED=false)');
+    }
+    const url = typeof req.query.url === 'string' ? req.query.url : undefined;
+    const snapshot = (await archive.list({ url })).pop();
+    if (!snapshot) {
+      res.status(404).json({ error: 'Not found', message: 'No page has been scraped yet' });
+      return;
+    }
+    const html = await archive.read(snapshot.hash);
     
     res.json({
+      ...snapshot,
+      fetchedAt: new Date(snapshot.fetchedAt).toISOString(),
       htmlLength: html.length,
       htmlSample: html.substring(0, 5000),
-      textSample: text.substring(0, 2000),
-      url: 'https://earthquake.phivolcs.dost.gov.ph/'
+      raw: `/api/debug/snapshots/${snapshot.hash}`,
     });
   } catch (error) {
     res.status(500).json({ 
@@ -56,48 +196,171 @@ app.get('/api/debug/html', async (req, res) => {
   }
 });
 
+// Webhook management requires "Authorization: Bearer <WEBHOOK_ADMIN_TOKEN>", and is
+// disabled without that variable: subscriptions make the server send requests, and
+// delivery results reveal what it can reach
+const requireAdmin: express.RequestHandler = (req, res, next) => {
+  const token = process.env.WEBHOOK_ADMIN_TOKEN;
+  if (!token) {
+    res.status(503).json({ error: 'Webhooks disabled', message: 'Set WEBHOOK_ADMIN_TOKEN to manage webhooks' });
+    return;
+  }
+  if (req.get('Authorization') !== `Bearer ${token}`) {
+    res.status(401).json({ error: 'Unauthorized', message: 'A valid admin token is required' });
+    return;
+  }
+  next();
+};
+
+// Secrets are only returned once, when the subscription is created
+const redactSecret = ({ secret, ...subscription }: WebhookSubscription) => subscription;
+
+app.get('/api/webhooks', requireAdmin, async (req, res) => {
+  await webhooks.load();
+  res.json(webhooks.list().map(redactSecret));
+});
+
+app.post('/api/webhooks', requireAdmin, async (req, res) => {
+  let input: ReturnType<typeof parseSubscription>;
+  try {
+    input = parseSubscription(req.body);
+  } catch (error) {
+    res.status(400).json({ error: 'Invalid subscription', message: error instanceof Error ? error.message : String(error) });
+    return;
+  }
+  try {
+    res.status(201).json(await webhooks.add(input));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to save subscription', message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
+
+app.delete('/api/webhooks/:id', requireAdmin, async (req, res) => {
+  if (await webhooks.remove(req.params.id)) {
+    res.status(204).end();
+  } else {
+    res.status(404).json({ error: 'Not found', message: `No webhook subscription ${req.params.id}` });
+  }
+});
+
+// Recent delivery attempts (the full history is in the delivery log file)
+app.get('/api/webhooks/deliveries', requireAdmin, (req, res) => {
+  res.json(webhooks.deliveries(typeof req.query.subscriptionId === 'string' ? req.query.subscriptionId : undefined));
+});
+
+// Live feed of new and revised earthquakes (text/event-stream)
+app.get('/api/earthquakes/stream', (req, res) => {
+  stream.connect(res, req.get('Last-Event-ID') || (typeof req.query.lastEventId === 'string' ? req.query.lastEventId : undefined));
+});
+
+// Rendered /api/earthquakes responses keyed by format and query. Ingestion that
+// changes the catalog clears it; the scrape itself is cached separately in ingest.ts.
+const responseCache = new TtlCache<EarthquakesResponse>({
+  name: 'Response cache',
+  ttlMs: envNumber('CACHE_TTL_MS', 60 * 1000),
+  staleMs: envNumber('CACHE_STALE_MS', 5 * 60 * 1000),
+});
+ingestEvents.on('ingested', (result: IngestResult) => {
+  if (result.created.length > 0 || result.updated.length > 0) {
+    responseCache.invalidate();
+  }
+});
+
+function sendCached(req: express.Request, res: express.Response, { value, state, storedAt }: CacheResult<EarthquakesResponse>): void {
+  const maxAge = Math.max(0, Math.round((responseCache.ttlMs - (Date.now() - storedAt)) / 1000));
+  res.set(value.headers);
+  res.setHeader('X-Cache', state.toUpperCase());
+  res.setHeader('ETag', value.etag);
+  res.setHeader('Cache-Control', `public, max-age=${maxAge}, stale-while-revalidate=${Math.round(responseCache.staleMs / 1000)}`);
+  res.vary('Accept');
+
+  // fresh() compares If-None-Match with the ETag set above
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+  res.type(value.contentType);
+  res.send(value.body);
+}
+
+// Cache key: format plus the query parameters in a stable order
+function cacheKey(req: express.Request, format: ResponseFormat): string {
+  const params = Object.entries(req.query)
+    .filter(([name]) => name !== 'format')
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, value]) => `${name}=${String(value)}`);
+  return `${format}?${params.join('&')}`;
+}
+
+// One earthquake with its parsed PHIVOLCS bulletin (intensities, damage/aftershock
+// outlook) and revision history. Old ids of revised events resolve to the event.
+app.get('/api/earthquakes/:id', async (req, res) => {
+  const signal = disconnectSignal(res);
+  try {
+    const earthquake = await loadEarthquakeDetail(req.params.id, {
+      latestIsFresh: latestPoller.hasSucceeded,
+      // The poll is shared, so a disconnect only stops waiting for it
+      ingestLatest: (loadSignal) => abortable(latestPoller.runOnce(), loadSignal),
+      signal,
+    });
+    if (!earthquake) {
+      res.status(404).json({ error: 'Not found', message: `No earthquake with id "${req.params.id}"` });
+      return;
+    }
+    res.json(earthquake);
+  } catch (error) {
+    if (signal.aborted) {
+      console.log(`🚫 Client disconnected while loading ${req.params.id}`);
+      return;
+    }
+    console.error('❌ Error loading earthquake details:', error);
+    res.status(500).json({
+      error: 'Failed to load earthquake',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // API endpoint to get earthquakes
-app.get('/api/earthquakes', async (req, res) => {
+app.get(['/api/earthquakes', '/api/earthquakes.:format'], async (req, res) => {
   // Set a longer timeout for this endpoint (3 minutes)
   req.setTimeout(180000); // 3 minutes
   res.setTimeout(180000);
+  // Aborts the scrape when the client goes away (or its socket times out)
+  const signal = disconnectSignal(res);
+  let request: EarthquakesRequest | undefined;
   
   try {
     console.log('📥 Request received: Fetching earthquake data from PHIVOLCS...');
     
-    // Get year and month from query parameters
-    const yearParam = req.query.year ? parseInt(req.query.year as string) : undefined;
-    const monthParam = req.query.month ? parseInt(req.query.month as string) : undefined;
-    
-    // Validate year and month
-    const year = yearParam && !isNaN(yearParam) && yearParam >= 2000 && yearParam <= 2100 ? yearParam : undefined;
-    const month = monthParam && !isNaN(monthParam) && monthParam >= 1 && monthParam <= 12 ? monthParam : undefined;
-    
-    if (year || month) {
-      console.log(`📅 Filtering by: Year=${year}, Month=${month}`);
+    try {
+      request = parseEarthquakesRequest({
+        query: req.query,
+        pathExtension: req.params.format,
+        accepts: (types) => req.accepts(types),
+      });
+    } catch (error) {
+      if (error instanceof BadRequestError) {
+        res.status(400).json({ error: error.title, message: error.message });
+        return;
+      }
+      throw error;
     }
     
-    const startTime = Date.now();
-    
-    // Add timeout wrapper to prevent hanging
-    const timeoutPromise = new Promise((_, reject) => {
-      setTimeout(() => {
-        reject(new Error('Scraping operation timed out after 3 minutes. The PHIVOLCS website may be slow or unresponsive.'));
-      }, 180000); // 3 minutes
+    // Requests for the same key share one load; it is cancelled once all of them have gone
+    const load = (loadSignal: AbortSignal) => loadEarthquakes(request, {
+      selfUrl: `${req.protocol}://${req.get('host')}${req.originalUrl}`,
+      latestIsFresh: latestPoller.hasSucceeded,
+      // Before the first poll completes, join it rather than starting another scrape
+      ingestLatest: (ingestSignal) => abortable(latestPoller.runOnce(), ingestSignal),
+      signal: loadSignal,
     });
-    
-    const earthquakes = await Promise.race([
-      scrapePHIVOLCS(year, month),
-      timeoutPromise
-    ]) as Awaited<ReturnType<typeof scrapePHIVOLCS>>;
-    
-    const duration = Date.now() - startTime;
-    
-    console.log(`✅ Successfully fetched ${earthquakes.length} earthquakes in ${duration}ms`);
-    
-    // Return empty array if no data found (not an error)
-    res.json(earthquakes);
+    sendCached(req, res, await responseCache.get(cacheKey(req, request.format), load, signal));
   } catch (error) {
+    if (signal.aborted) {
+      console.log('🚫 Client disconnected, earthquake request cancelled');
+      return;
+    }
     console.error('❌ Error fetching earthquake data:', error);
     console.error('Error stack:', error instanceof Error ? error.stack : 'No stack trace');
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -112,8 +375,10 @@ app.get('/api/earthquakes', async (req, res) => {
     
     // Don't send response if headers already sent
     if (!res.headersSent) {
-      res.status(500).json({ 
-        error: 'Failed to fetch earthquake data',
+      const formatChanged = error instanceof SourceFormatChangedError;
+      res.set(formatChanged ? { 'X-Source-Format': 'changed' } : sourceFormatHeaders(request));
+      res.status(formatChanged ? 502 : 500).json({ 
+        error: formatChanged ? 'Source format changed' : 'Failed to fetch earthquake data',
         message: errorMessage,
         details: process.env.NODE_ENV === 'development' ? errorStack : undefined
       });
@@ -125,5 +390,19 @@ const PORT = process.env.PORT || 3001;
 app.listen(PORT, () => {
   console.log(`🚀 PHIVOLCS Scraper API running on http://localhost:${PORT}`);
   console.log(`📡 Endpoint: http://localhost:${PORT}/api/earthquakes`);
+  
+  catalog.load().catch((error) => {
+    console.error('❌ Failed to load earthquake catalog:', error);
+  });
+  webhooks.load().catch((error) => {
+    console.error('❌ Failed to load webhook subscriptions:', error);
+  });
+  
+  if (process.env.POLL_ENABLED !== 'false') {
+    latestPoller.start();
+  }
+  getBrowserPool()?.warm().catch((error) => {
+    console.warn('⚠️  Could not warm the browser pool:', error instanceof Error ? error.message : error);
+  });
 });
 
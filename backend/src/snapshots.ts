@@ -0,0 +1,231 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+import { gunzip, gzip } from "zlib";
+import { envNumber } from "./env.js";
+import type { ParseMethod, ParseResult } from "./parser.js";
+import type { FetchedPage, PHIVOLCSEarthquake } from "./types.js";
+
+// Archive of the raw HTML of every scraped PHIVOLCS page, so parser changes can
+// be replayed over real pages (npm run reparse) without fetching them again.
+//
+//   <dir>/index.jsonl              one line per fetch: hash, url, fetch time
+//   <dir>/objects/ab/<hash>.html.gz  page content, gzipped, stored once per hash
+//   <dir>/results/<hash>.json       earthquakes the parser found in it at the time
+//
+// Fetches older than SNAPSHOT_MAX_AGE_DAYS are pruned, along with pages no
+// remaining fetch refers to.
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+export const DEFAULT_SNAPSHOT_DIR = process.env.SNAPSHOT_DIR
+  || (process.env.VERCEL ? path.join(os.tmpdir(), 'snapshots') : path.resolve('data', 'snapshots'));
+
+// On by default, except on Vercel where the temp directory is small and short-lived
+const SNAPSHOTS_ENABLED = process.env.SNAPSHOTS_ENABLED
+  ? process.env.SNAPSHOTS_ENABLED !== 'false'
+  : !process.env.VERCEL;
+
+const DEFAULT_MAX_AGE_MS = envNumber('SNAPSHOT_MAX_AGE_DAYS', 90) * 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export interface SnapshotRecord {
+  // sha256 of the HTML
+  hash: string;
+  url: string;
+  fetchedAt: number;
+  status: number | null;
+  via: FetchedPage['via'];
+  bytes: number;
+}
+
+// What a parser made of a snapshot
+export interface SnapshotResult {
+  parsedAt: number;
+  method: ParseMethod;
+  earthquakes: PHIVOLCSEarthquake[];
+}
+
+export interface SnapshotArchiveOptions {
+  // Fetches older than this (relative to the newest one) are pruned; 0 keeps everything
+  maxAgeMs?: number;
+}
+
+export interface PruneResult {
+  fetches: number;
+  pages: number;
+}
+
+export interface SnapshotQuery {
+  // Substring of the page URL
+  url?: string;
+  since?: number;
+  until?: number;
+}
+
+export const hashHtml = (html: string) => createHash('sha256').update(html).digest('hex');
+
+const isMissing = (error: unknown) => (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+
+export class SnapshotArchive {
+  private writeQueue: Promise<unknown> = Promise.resolve();
+  private lastPrunedAt = -Infinity;
+  private readonly maxAgeMs: number;
+
+  constructor(readonly dir: string = DEFAULT_SNAPSHOT_DIR, options: SnapshotArchiveOptions = {}) {
+    this.maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+  }
+
+  // Store a fetched page and what the parser found in it. Identical content is
+  // stored once; every fetch still gets its own index line. Old fetches are
+  // pruned now and then.
+  async save(page: FetchedPage, parsed: ParseResult, fetchedAt: number = Date.now()): Promise<SnapshotRecord> {
+    const hash = hashHtml(page.html);
+    const record: SnapshotRecord = {
+      hash,
+      url: page.url,
+      fetchedAt,
+      status: page.status,
+      via: page.via,
+      bytes: Buffer.byteLength(page.html),
+    };
+
+    const objectPath = this.objectPath(hash);
+    // Serialized with pruning, which could otherwise delete the page between the two writes
+    await this.serialize(async () => {
+      if (!await this.exists(objectPath)) {
+        await fs.mkdir(path.dirname(objectPath), { recursive: true });
+        await this.writeAtomic(objectPath, await gzipAsync(page.html));
+        await this.writeResult(hash, { parsedAt: fetchedAt, method: parsed.method, earthquakes: parsed.earthquakes });
+      }
+      await fs.mkdir(this.dir, { recursive: true });
+      await fs.appendFile(this.indexPath, JSON.stringify(record) + '\n', 'utf8');
+    });
+
+    if (this.maxAgeMs > 0 && fetchedAt - this.lastPrunedAt >= PRUNE_INTERVAL_MS) {
+      this.lastPrunedAt = fetchedAt;
+      await this.prune(fetchedAt - this.maxAgeMs).catch((error) => {
+        console.warn('⚠️  Could not prune old snapshots:', error instanceof Error ? error.message : error);
+      });
+    }
+    return record;
+  }
+
+  // Drop fetches before the given time, and the pages and results no remaining
+  // fetch refers to
+  prune(before: number): Promise<PruneResult> {
+    return this.serialize(async () => {
+      const records = await this.list();
+      const kept = records.filter((record) => record.fetchedAt >= before);
+      if (kept.length === records.length) return { fetches: 0, pages: 0 };
+
+      await this.writeAtomic(this.indexPath, kept.map((record) => JSON.stringify(record) + '\n').join(''));
+      const keptHashes = new Set(kept.map((record) => record.hash));
+      const dropped = new Set(records.map((record) => record.hash).filter((hash) => !keptHashes.has(hash)));
+      for (const hash of dropped) {
+        await fs.rm(this.objectPath(hash), { force: true });
+        await fs.rm(this.resultPath(hash), { force: true });
+      }
+      console.log(`🗄️  Pruned ${records.length - kept.length} snapshot fetches and ${dropped.size} pages from before ${new Date(before).toISOString()}`);
+      return { fetches: records.length - kept.length, pages: dropped.size };
+    });
+  }
+
+  // Index records matching the query, oldest first
+  async list({ url, since, until }: SnapshotQuery = {}): Promise<SnapshotRecord[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.indexPath, 'utf8');
+    } catch (error) {
+      if (isMissing(error)) return [];
+      throw error;
+    }
+
+    const records: SnapshotRecord[] = [];
+    for (const line of content.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const record = JSON.parse(line) as SnapshotRecord;
+        if (url && !record.url.includes(url)) continue;
+        if (since !== undefined && record.fetchedAt < since) continue;
+        if (until !== undefined && record.fetchedAt >= until) continue;
+        records.push(record);
+      } catch {
+        // A line cut short by a crash; the rest of the index is still usable
+      }
+    }
+    return records.sort((a, b) => a.fetchedAt - b.fetchedAt);
+  }
+
+  async read(hash: string): Promise<string> {
+    return (await gunzipAsync(await fs.readFile(this.objectPath(hash)))).toString('utf8');
+  }
+
+  async readResult(hash: string): Promise<SnapshotResult | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.resultPath(hash), 'utf8')) as SnapshotResult;
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+  }
+
+  // Replace the stored parse of a snapshot (after a parser fix has been reviewed)
+  async writeResult(hash: string, result: SnapshotResult): Promise<void> {
+    const resultPath = this.resultPath(hash);
+    await fs.mkdir(path.dirname(resultPath), { recursive: true });
+    await this.writeAtomic(resultPath, JSON.stringify(result));
+  }
+
+  private get indexPath(): string {
+    return path.join(this.dir, 'index.jsonl');
+  }
+
+  private objectPath(hash: string): string {
+    if (!/^[0-9a-f]{64}$/.test(hash)) {
+      throw new Error(`Invalid snapshot hash "${hash}"`);
+    }
+    return path.join(this.dir, 'objects', hash.slice(0, 2), `${hash}.html.gz`);
+  }
+
+  private resultPath(hash: string): string {
+    return path.join(this.dir, 'results', `${hash}.json`);
+  }
+
+  private async exists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async writeAtomic(filePath: string, data: string | Buffer): Promise<void> {
+    const tmpPath = `${filePath}.tmp`;
+    await fs.writeFile(tmpPath, data);
+    await fs.rename(tmpPath, filePath);
+  }
+
+  // Writes are serialized so concurrent scrapes never interleave index lines and
+  // pruning never sees a half-written fetch
+  private serialize<T>(run: () => Promise<T>): Promise<T> {
+    const next = this.writeQueue.then(run, run);
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+}
+
+let defaultArchive: SnapshotArchive | null = null;
+
+// The shared archive, or null when SNAPSHOTS_ENABLED=false
+export function getSnapshotArchive(): SnapshotArchive | null {
+  if (!SNAPSHOTS_ENABLED) return null;
+  if (!defaultArchive) {
+    defaultArchive = new SnapshotArchive();
+  }
+  return defaultArchive;
+}
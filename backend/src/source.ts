@@ -0,0 +1,58 @@
+// Where PHIVOLCS pages are fetched from. Both parts can be overridden, e.g. to
+// point the scraper at the mock server (npm run mock:phivolcs) during development
+// and in integration tests:
+//
+//   PHIVOLCS_BASE_URL              origin of the latest page (default https://earthquake.phivolcs.dost.gov.ph/)
+//   PHIVOLCS_MONTHLY_URL_TEMPLATE  monthly archive URL, absolute or relative to the base URL;
+//                                  {year}, {month} (1-12), {mm} (01-12) and {monthName} are filled in
+
+export const DEFAULT_PHIVOLCS_URL = 'https://earthquake.phivolcs.dost.gov.ph/';
+export const DEFAULT_MONTHLY_URL_TEMPLATE = 'EQLatest-Monthly/{year}/{year}_{monthName}.html';
+
+// Relative templates resolve below the base URL, so it always ends with a slash
+const withTrailingSlash = (url: string) => (url.endsWith('/') ? url : `${url}/`);
+
+export const PHIVOLCS_URL = withTrailingSlash(process.env.PHIVOLCS_BASE_URL || DEFAULT_PHIVOLCS_URL);
+export const MONTHLY_URL_TEMPLATE = process.env.PHIVOLCS_MONTHLY_URL_TEMPLATE || DEFAULT_MONTHLY_URL_TEMPLATE;
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+export function monthlyArchiveUrl(year: number, month: number, template = MONTHLY_URL_TEMPLATE, baseUrl = PHIVOLCS_URL): string {
+  const path = template
+    .replace(/\{year\}/g, String(year))
+    .replace(/\{mm\}/g, String(month).padStart(2, '0'))
+    .replace(/\{month\}/g, String(month))
+    .replace(/\{monthName\}/g, MONTH_NAMES[month - 1]);
+  return new URL(path, baseUrl).toString();
+}
+
+// The year of a monthly archive URL built from the template, or null for any other page
+export function archiveYear(url: string, template = MONTHLY_URL_TEMPLATE, baseUrl = PHIVOLCS_URL): number | null {
+  const placeholders: Record<string, string> = {
+    year: '(?<year>\\d{4})',
+    mm: '\\d{2}',
+    month: '\\d{1,2}',
+    monthName: '[A-Za-z]+',
+  };
+  let yearSeen = false;
+  const pattern = new URL(template, baseUrl).toString()
+    // URL() percent-encodes the braces
+    .replace(/%7B/gi, '{').replace(/%7D/gi, '}')
+    .split(/(\{\w+\})/)
+    .map((part) => {
+      const name = part.match(/^\{(\w+)\}$/)?.[1];
+      if (!name || !placeholders[name]) return part.replace(/[.*+?^$()|[\]\\{}]/g, '\\$&');
+      // A named group can only appear once; later {year}s just have to be a year
+      if (name === 'year' && yearSeen) return '\\d{4}';
+      if (name === 'year') yearSeen = true;
+      return placeholders[name];
+    })
+    .join('');
+  const year = url.match(new RegExp(`^${pattern}$`))?.groups?.year;
+  return year ? parseInt(year, 10) : null;
+}
+
+export const isMonthlyArchiveUrl = (url: string) => archiveYear(url) !== null;
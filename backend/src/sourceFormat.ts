@@ -0,0 +1,281 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { recordSourceFormatChange } from "./metrics.js";
+import type { ParseMethod, ParseResult } from "./parser.js";
+import { archiveYear } from "./source.js";
+
+// Detects PHIVOLCS redesigns. Every scrape's earthquake table is reduced to a
+// structural fingerprint (column count, header text, the kinds of value in each
+// cell) and compared with the last fingerprint that parsed cleanly for the same
+// kind of page. A mismatch raises a "source format changed" state instead of the
+// map quietly going empty.
+
+export const DEFAULT_FINGERPRINTS_PATH = process.env.SOURCE_FINGERPRINTS_PATH
+  || (process.env.VERCEL ? path.join(os.tmpdir(), 'source-fingerprints.json') : path.resolve('data', 'source-fingerprints.json'));
+
+export interface MarkupFingerprint {
+  method: ParseMethod;
+  // Cells in a typical data row of the earthquake table (0 when there is none)
+  columnCount: number;
+  // Normalized column headers of the earthquake table
+  headers: string[];
+  // Kinds of value per cell, one letter each (d date, t time, n number, s text,
+  // - empty), for every distinct data row layout, most common first
+  rowShapes: string[];
+}
+
+export interface SourceFormatChange {
+  // Kind of page: "latest" or "monthly-<year>" (archive layouts differ by year)
+  page: string;
+  url: string;
+  detectedAt: number;
+  differences: string[];
+  expected: MarkupFingerprint;
+  actual: MarkupFingerprint;
+}
+
+export interface SourceFormatStatus {
+  status: 'ok' | 'changed';
+  changes: SourceFormatChange[];
+}
+
+// The page no longer looks like it did, and nothing could be parsed from it
+export class SourceFormatChangedError extends Error {
+  constructor(readonly change: SourceFormatChange) {
+    super(`The PHIVOLCS page format has changed (${change.differences.join('; ')})`);
+    this.name = 'SourceFormatChangedError';
+  }
+}
+
+const MONTH_PATTERN = /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\b|\d{4}-\d{2}-\d{2}|\d{1,2}\/\d{1,2}\/\d{2,4}/i;
+const TIME_PATTERN = /^\d{1,2}:\d{2}(:\d{2})?\s*([AP]M)?$/i;
+const NUMBER_PATTERN = /^[-+]?\d+(\.\d+)?$/;
+
+function cellKind(text: string): string {
+  if (!text) return '-';
+  if (NUMBER_PATTERN.test(text)) return 'n';
+  if (TIME_PATTERN.test(text)) return 't';
+  if (MONTH_PATTERN.test(text)) return 'd';
+  return 's';
+}
+
+// "Latitude<br>(ºN)" and "Latitude (ºN)" are the same header
+const normalizeHeader = (text: string) => text.toLowerCase().replace(/[^a-z]+/g, ' ').trim();
+
+// Fingerprint the table the earthquakes came from, i.e. the one with the most
+// rows that look like data, using the parser's row diagnostics
+export function fingerprintMarkup({ method, diagnostics }: ParseResult): MarkupFingerprint {
+  const dataRows = new Map<number, string[][]>();
+  for (const diagnostic of diagnostics) {
+    if (diagnostic.reason === 'header' || diagnostic.reason === 'too-few-cells') continue;
+    const rows = dataRows.get(diagnostic.tableIndex) || [];
+    rows.push(diagnostic.cells);
+    dataRows.set(diagnostic.tableIndex, rows);
+  }
+
+  let tableIndex = -1;
+  let rows: string[][] = [];
+  for (const [index, tableRows] of dataRows) {
+    if (tableRows.length > rows.length) {
+      tableIndex = index;
+      rows = tableRows;
+    }
+  }
+
+  const shapeCounts = new Map<string, number>();
+  for (const cells of rows) {
+    const shape = cells.map(cellKind).join('');
+    shapeCounts.set(shape, (shapeCounts.get(shape) || 0) + 1);
+  }
+  const rowShapes = Array.from(shapeCounts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([shape]) => shape);
+
+  // Title rows span the table; the column header row has a cell per column
+  const headerRow = diagnostics.find((diagnostic) =>
+    diagnostic.tableIndex === tableIndex && diagnostic.reason === 'header' && diagnostic.cells.length >= 3);
+
+  return {
+    method,
+    columnCount: rowShapes[0]?.length ?? 0,
+    headers: headerRow ? headerRow.cells.map(normalizeHeader) : [],
+    rowShapes,
+  };
+}
+
+// Human-readable differences (empty when the page still looks the same)
+export function compareFingerprints(expected: MarkupFingerprint, actual: MarkupFingerprint): string[] {
+  const differences: string[] = [];
+  if (actual.method !== expected.method) {
+    differences.push(`parsed by the "${actual.method}" heuristic instead of "${expected.method}"`);
+  }
+  if (actual.columnCount === 0) {
+    differences.push('no earthquake table rows found');
+  } else if (actual.columnCount !== expected.columnCount) {
+    differences.push(`data rows have ${actual.columnCount} columns instead of ${expected.columnCount}`);
+  }
+  if (expected.headers.length > 0 && actual.headers.join('|') !== expected.headers.join('|')) {
+    differences.push(actual.headers.length > 0
+      ? `column headers changed from "${expected.headers.join(', ')}" to "${actual.headers.join(', ')}"`
+      : 'column headers are missing');
+  }
+  // Rows may vary (an empty cell now and then), but the usual layout must be a known one
+  const usual = actual.rowShapes[0];
+  if (usual && actual.columnCount === expected.columnCount && !expected.rowShapes.includes(usual)) {
+    differences.push(`data rows are laid out as "${usual}" instead of "${expected.rowShapes[0]}"`);
+  }
+  return differences;
+}
+
+// Archive pages have looked different over the years, so each year of archives
+// is compared with itself
+export function pageKind(url: string): string {
+  const year = archiveYear(url);
+  return year === null ? 'latest' : `monthly-${year}`;
+}
+
+interface StoredFingerprint {
+  fingerprint: MarkupFingerprint;
+  recordedAt: number;
+}
+
+export interface SourceFormatMonitorOptions {
+  filePath?: string;
+  // A changed page that keeps parsing cleanly becomes the new known-good format
+  // after this many scrapes in a row
+  acceptAfter?: number;
+}
+
+// Keeps the last known-good fingerprint per kind of page (persisted as JSON) and
+// the changes currently detected
+export class SourceFormatMonitor {
+  private knownGood = new Map<string, StoredFingerprint>();
+  private changes = new Map<string, SourceFormatChange>();
+  // Clean scrapes in a row of a changed page, toward acceptAfter
+  private cleanRuns = new Map<string, { shape: string; count: number }>();
+  private loaded = false;
+  private readonly options: Required<SourceFormatMonitorOptions>;
+
+  constructor(options: SourceFormatMonitorOptions = {}) {
+    this.options = {
+      filePath: DEFAULT_FINGERPRINTS_PATH,
+      acceptAfter: 3,
+      ...options,
+    };
+  }
+
+  get changed(): boolean {
+    return this.changes.size > 0;
+  }
+
+  // Whether a kind of page (see pageKind) currently looks different
+  isChanged(page: string): boolean {
+    return this.changes.has(page);
+  }
+
+  status(): SourceFormatStatus {
+    return {
+      status: this.changed ? 'changed' : 'ok',
+      changes: Array.from(this.changes.values()),
+    };
+  }
+
+  async load(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+    try {
+      const stored = JSON.parse(await fs.readFile(this.options.filePath, 'utf8')) as Record<string, StoredFingerprint>;
+      for (const [page, entry] of Object.entries(stored)) {
+        this.knownGood.set(page, entry);
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+        console.warn('⚠️  Could not read source fingerprints:', error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  // Compare a scraped page with its known-good format. Returns the change when
+  // the page looks different, or null.
+  async check(url: string, parsed: ParseResult, at: number = Date.now()): Promise<SourceFormatChange | null> {
+    await this.load();
+    const page = pageKind(url);
+    const fingerprint = fingerprintMarkup(parsed);
+    // Only a table that parsed without rejected data rows is a format worth keeping
+    const clean = parsed.method === 'table' && parsed.earthquakes.length > 0 &&
+      parsed.diagnostics.every((diagnostic) => diagnostic.status === 'parsed' || diagnostic.reason === 'header' || diagnostic.reason === 'too-few-cells' || diagnostic.reason === 'duplicate');
+    const known = this.knownGood.get(page);
+
+    if (!known) {
+      if (clean) await this.remember(page, fingerprint, at);
+      return null;
+    }
+
+    const differences = compareFingerprints(known.fingerprint, fingerprint);
+    if (differences.length === 0) {
+      this.resolve(page);
+      return null;
+    }
+
+    if (clean && this.acceptIfStable(page, fingerprint)) {
+      console.log(`🧬 PHIVOLCS ${page} page format changed but keeps parsing; accepting it as the new format`);
+      await this.remember(page, fingerprint, at);
+      this.resolve(page);
+      return null;
+    }
+    if (!clean) this.cleanRuns.delete(page);
+
+    const previous = this.changes.get(page);
+    const change: SourceFormatChange = {
+      page,
+      url,
+      detectedAt: previous?.detectedAt ?? at,
+      differences,
+      expected: known.fingerprint,
+      actual: fingerprint,
+    };
+    if (!previous) {
+      recordSourceFormatChange(page);
+      console.error(`🧬 PHIVOLCS ${page} page format changed: ${differences.join('; ')}`);
+    }
+    this.changes.set(page, change);
+    return change;
+  }
+
+  private acceptIfStable(page: string, fingerprint: MarkupFingerprint): boolean {
+    const shape = JSON.stringify(fingerprint);
+    const run = this.cleanRuns.get(page);
+    const count = run?.shape === shape ? run.count + 1 : 1;
+    this.cleanRuns.set(page, { shape, count });
+    return count >= this.options.acceptAfter;
+  }
+
+  private resolve(page: string): void {
+    this.cleanRuns.delete(page);
+    if (this.changes.delete(page)) {
+      console.log(`🧬 PHIVOLCS ${page} page format is back to normal`);
+    }
+  }
+
+  private async remember(page: string, fingerprint: MarkupFingerprint, at: number): Promise<void> {
+    this.knownGood.set(page, { fingerprint, recordedAt: at });
+    try {
+      const tmpPath = `${this.options.filePath}.tmp`;
+      await fs.mkdir(path.dirname(this.options.filePath), { recursive: true });
+      await fs.writeFile(tmpPath, JSON.stringify(Object.fromEntries(this.knownGood), null, 2), 'utf8');
+      await fs.rename(tmpPath, this.options.filePath);
+    } catch (error) {
+      console.error('❌ Failed to save source fingerprints:', error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+let defaultMonitor: SourceFormatMonitor | null = null;
+
+export function getSourceFormatMonitor(): SourceFormatMonitor {
+  if (!defaultMonitor) {
+    defaultMonitor = new SourceFormatMonitor();
+  }
+  return defaultMonitor;
+}
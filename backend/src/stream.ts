@@ -0,0 +1,140 @@
+import type { Response } from "express";
+import { CatalogEntry, toEarthquake } from "./catalog.js";
+import { ingestEvents, IngestResult } from "./ingest.js";
+
+export type StreamEventType = 'quake.created' | 'quake.updated';
+
+export interface StreamEvent {
+  id: number;
+  type: StreamEventType;
+  data: string;
+}
+
+const HEARTBEAT_MS = 25 * 1000;
+
+export interface EarthquakeStreamOptions {
+  // Events kept for clients that reconnect with Last-Event-ID
+  bufferSize?: number;
+  // Quakes older than this are not pushed, so archive and range ingests don't
+  // flood open tabs with years-old events (0 disables the cutoff)
+  maxEventAgeMs?: number;
+}
+
+// Server-Sent Events fan-out of catalog changes.
+//
+// Event ids are increasing epoch-millisecond values, so they keep increasing
+// across restarts. A client reconnecting with Last-Event-ID gets everything newer
+// from the replay buffer. If events it may have missed are gone (the buffer
+// overflowed, or its id is from before a restart) it gets a `resync` event and
+// should refetch the list.
+export class EarthquakeStream {
+  private clients = new Set<Response>();
+  private buffer: StreamEvent[] = [];
+  private lastId = 0;
+  private droppedThrough = 0;
+  private readonly startedAt = Date.now();
+  private heartbeat: NodeJS.Timeout | null = null;
+  private readonly onIngested = (result: IngestResult) => this.publish(result);
+  private readonly options: Required<EarthquakeStreamOptions>;
+
+  constructor(options: EarthquakeStreamOptions = {}) {
+    this.options = {
+      bufferSize: 500,
+      maxEventAgeMs: 24 * 60 * 60 * 1000,
+      ...options,
+    };
+  }
+
+  get clientCount(): number {
+    return this.clients.size;
+  }
+
+  // Start forwarding ingestion results to connected clients
+  attach(): void {
+    ingestEvents.on('ingested', this.onIngested);
+  }
+
+  detach(): void {
+    ingestEvents.off('ingested', this.onIngested);
+    for (const res of this.clients) {
+      res.end();
+    }
+    this.clients.clear();
+    this.stopHeartbeat();
+  }
+
+  publish({ created, updated }: Pick<IngestResult, 'created' | 'updated'>): void {
+    const cutoff = Date.now() - this.options.maxEventAgeMs;
+    const push = (type: StreamEventType, entry: CatalogEntry) => {
+      if (this.options.maxEventAgeMs > 0 && entry.time < cutoff) return;
+      this.lastId = Math.max(this.lastId + 1, Date.now());
+      const event: StreamEvent = { id: this.lastId, type, data: JSON.stringify(toEarthquake(entry)) };
+      this.buffer.push(event);
+      for (const res of this.clients) {
+        this.write(res, event);
+      }
+    };
+
+    created.forEach(entry => push('quake.created', entry));
+    updated.forEach(entry => push('quake.updated', entry));
+
+    if (this.buffer.length > this.options.bufferSize) {
+      const dropped = this.buffer.splice(0, this.buffer.length - this.options.bufferSize);
+      this.droppedThrough = dropped[dropped.length - 1].id;
+    }
+  }
+
+  // Take over an HTTP response as an event stream
+  connect(res: Response, lastEventId?: string): void {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    // Stop reverse proxies (nginx) from buffering the stream
+    res.setHeader('X-Accel-Buffering', 'no');
+    res.flushHeaders();
+    res.write('retry: 5000\n\n');
+
+    if (lastEventId) {
+      this.replay(res, parseInt(lastEventId, 10));
+    }
+
+    this.clients.add(res);
+    this.startHeartbeat();
+    res.on('close', () => {
+      this.clients.delete(res);
+      if (this.clients.size === 0) this.stopHeartbeat();
+    });
+  }
+
+  private replay(res: Response, lastEventId: number): void {
+    if (isNaN(lastEventId) || lastEventId < Math.max(this.startedAt, this.droppedThrough)) {
+      // Events were missed (buffer overflow or restart): the client must refetch
+      res.write(`event: resync\ndata: {}\n\n`);
+      return;
+    }
+    for (const event of this.buffer) {
+      if (event.id > lastEventId) this.write(res, event);
+    }
+  }
+
+  private write(res: Response, event: StreamEvent): void {
+    res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${event.data}\n\n`);
+  }
+
+  private startHeartbeat(): void {
+    if (this.heartbeat) return;
+    this.heartbeat = setInterval(() => {
+      // SSE comment line keeps idle connections open through proxies
+      for (const res of this.clients) res.write(': ping\n\n');
+    }, HEARTBEAT_MS);
+    this.heartbeat.unref();
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+}
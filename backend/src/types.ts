@@ -0,0 +1,73 @@
+export interface PHIVOLCSEarthquake {
+  id: string;
+  magnitude: number;
+  place: string;
+  time: number;
+  longitude: number;
+  latitude: number;
+  depth: number;
+  url?: string;
+  detail?: string;
+  // `place` decomposed, when it follows the usual PHIVOLCS pattern
+  location?: PlaceLocation | null;
+  // What the parser had to guess for this record
+  quality?: DataQuality;
+}
+
+export interface DataQuality {
+  // Which parsing heuristic produced the record
+  sourceMethod: 'table' | 'div' | 'script';
+  // No usable coordinates: placed at the centre of the Philippines
+  coordinatesImputed: boolean;
+  // No parseable time: stamped with the time it was scraped
+  timeUnparsed: boolean;
+  // No place text: a placeholder such as "Philippines"
+  placeImputed: boolean;
+  // Coordinates outside PHIVOLCS' area of responsibility
+  outOfRegion: boolean;
+}
+
+// "046 km S 42° E of Governor Generoso (Davao Oriental)"
+export interface PlaceLocation {
+  raw: string;
+  distanceKm: number;
+  // Degrees clockwise from north, from the reference town to the epicenter
+  bearing: number;
+  municipality: string;
+  province: string | null;
+  reference: { latitude: number; longitude: number } | null;
+}
+
+export interface FetchedPage {
+  url: string;
+  status: number | null;
+  html: string;
+  via: 'http' | 'browser';
+}
+
+// Places that felt one PHIVOLCS intensity level (Roman numeral, PEIS scale)
+export interface IntensityReport {
+  intensity: string;
+  locations: string[];
+}
+
+// Parsed PHIVOLCS earthquake information bulletin (the page each listing row links to)
+export interface EarthquakeBulletin {
+  url: string;
+  fetchedAt: number;
+  // Bulletins are reissued as an event is revised; the last one is marked final
+  number: number | null;
+  final: boolean;
+  time: number | null;
+  magnitude: number | null;
+  depth: number | null;
+  latitude: number | null;
+  longitude: number | null;
+  place: string | null;
+  origin: string | null;
+  reportedIntensities: IntensityReport[];
+  instrumentalIntensities: IntensityReport[];
+  expectingDamage: boolean | null;
+  expectingAftershocks: boolean | null;
+  issuedAt: number | null;
+}
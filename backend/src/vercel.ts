@@ -0,0 +1,112 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import accepts from "accepts";
+import { disconnectSignal } from "./abort.js";
+import {
+  BadRequestError,
+  EarthquakesRequest,
+  loadEarthquakeDetail,
+  loadEarthquakes,
+  parseEarthquakesRequest,
+  sourceFormatHeaders,
+} from "./earthquakesApi.js";
+import { ingestCached } from "./ingest.js";
+import { SourceFormatChangedError } from "./sourceFormat.js";
+
+// Vercel serverless adapter for /api/earthquakes (deployed via api/earthquakes.ts).
+// Same request core as the Express server, minus the background poller and SSE:
+// every instance scrapes on demand into a catalog in the temp directory.
+
+// Lets Vercel's CDN answer repeat requests while a fresh copy is scraped
+const CDN_CACHE_CONTROL = 'public, s-maxage=60, stale-while-revalidate=300';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  const signal = disconnectSignal(res);
+  let request: EarthquakesRequest | undefined;
+  try {
+    console.log('🚀 Request received on Vercel: Fetching earthquake data from PHIVOLCS...');
+
+    try {
+      request = parseEarthquakesRequest({
+        query: req.query,
+        // The same negotiation as Express's req.accepts()
+        accepts: (types) => accepts(req).type(types) as string | false,
+      });
+    } catch (error) {
+      if (error instanceof BadRequestError) {
+        res.status(400).json({ error: error.title, message: error.message });
+        return;
+      }
+      throw error;
+    }
+
+    const response = await loadEarthquakes(request, {
+      selfUrl: `https://${req.headers.host}${req.url}`,
+      latestIsFresh: false,
+      ingestLatest: (ingestSignal) => ingestCached(undefined, undefined, { signal: ingestSignal }),
+      signal,
+    });
+
+    for (const [name, value] of Object.entries(response.headers)) {
+      res.setHeader(name, value);
+    }
+    res.setHeader('ETag', response.etag);
+    res.setHeader('Cache-Control', CDN_CACHE_CONTROL);
+    res.setHeader('Vary', 'Accept');
+    if (req.headers['if-none-match'] === response.etag) {
+      res.status(304).end();
+      return;
+    }
+    res.setHeader('Content-Type', `${response.contentType}; charset=utf-8`);
+    res.status(200).send(response.body);
+  } catch (error) {
+    if (signal.aborted) {
+      console.log('🚫 Client disconnected, earthquake request cancelled');
+      return;
+    }
+    console.error('❌ Error fetching earthquake data:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    const formatChanged = error instanceof SourceFormatChangedError;
+
+    for (const [name, value] of Object.entries(formatChanged ? { 'X-Source-Format': 'changed' } : sourceFormatHeaders(request))) {
+      res.setHeader(name, value);
+    }
+    res.status(formatChanged ? 502 : 500).json({
+      error: formatChanged ? 'Source format changed' : 'Failed to fetch earthquake data',
+      message: errorMessage,
+      details: process.env.NODE_ENV === 'development' ? (error instanceof Error ? error.stack : undefined) : undefined,
+    });
+  }
+}
+
+// /api/earthquakes/:id (deployed via api/earthquakes/[id].ts)
+export async function earthquakeDetailHandler(req: VercelRequest, res: VercelResponse) {
+  const id = String(req.query.id || '');
+  const signal = disconnectSignal(res);
+  try {
+    const earthquake = await loadEarthquakeDetail(id, {
+      latestIsFresh: false,
+      ingestLatest: (ingestSignal) => ingestCached(undefined, undefined, { signal: ingestSignal }),
+      signal,
+    });
+    if (!earthquake) {
+      res.status(404).json({ error: 'Not found', message: `No earthquake with id "${id}"` });
+      return;
+    }
+    res.setHeader('Cache-Control', CDN_CACHE_CONTROL);
+    res.status(200).json(earthquake);
+  } catch (error) {
+    if (signal.aborted) {
+      console.log(`🚫 Client disconnected while loading ${id}`);
+      return;
+    }
+    console.error('❌ Error loading earthquake details:', error);
+    res.status(500).json({
+      error: 'Failed to load earthquake',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
+
+export const config = {
+  maxDuration: 60,
+};
@@ -0,0 +1,357 @@
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { lookup } from "dns";
+import { promises as fs } from "fs";
+import http from "http";
+import https from "https";
+import { BlockList, isIP, LookupFunction } from "net";
+import path from "path";
+import { sleep } from "./abort.js";
+import { CatalogEntry, toEarthquake } from "./catalog.js";
+import { EarthquakeFilters, matchesFilters, parseFilters } from "./filters.js";
+import type { IngestResult } from "./ingest.js";
+
+export const DEFAULT_WEBHOOKS_PATH = process.env.WEBHOOKS_PATH || path.resolve('data', 'webhooks.json');
+export const DEFAULT_DELIVERY_LOG_PATH = process.env.WEBHOOK_DELIVERY_LOG_PATH || path.resolve('data', 'webhook-deliveries.jsonl');
+
+export type WebhookEventType = 'quake.created' | 'quake.updated';
+const EVENT_TYPES: WebhookEventType[] = ['quake.created', 'quake.updated'];
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  secret: string;
+  description?: string;
+  events: WebhookEventType[];
+  // Every set condition must match (magnitude, depth, bbox, distance to a point)
+  rules: EarthquakeFilters;
+  createdAt: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  event: WebhookEventType;
+  earthquakeId: string;
+  url: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: number;
+  responseStatus: number | null;
+  error: string | null;
+  createdAt: number;
+  finishedAt: number | null;
+}
+
+export interface WebhookDispatcherOptions {
+  subscriptionsPath?: string;
+  deliveryLogPath?: string;
+  maxAttempts?: number;
+  // Delay before the first retry; doubles after every failed attempt
+  retryBaseMs?: number;
+  timeoutMs?: number;
+  // Quakes older than this (e.g. found by a backfill) never trigger webhooks
+  maxEventAgeMs?: number;
+  // Deliver to loopback, private and link-local addresses (local development only)
+  allowPrivateHosts?: boolean;
+}
+
+export interface ParseSubscriptionOptions {
+  allowPrivateHosts?: boolean;
+}
+
+// Webhooks must not become a way to reach the server's own network (SSRF), so
+// targets on loopback, private, shared and link-local (cloud metadata) addresses
+// are refused unless WEBHOOK_ALLOW_PRIVATE_HOSTS=true
+const ALLOW_PRIVATE_HOSTS = process.env.WEBHOOK_ALLOW_PRIVATE_HOSTS === 'true';
+
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.168.0.0', 16]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['::ffff:0:0', 96], ['fc00::', 7], ['fe80::', 10]] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+const isPrivateAddress = (address: string) => {
+  const family = isIP(address);
+  return family !== 0 && PRIVATE_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+// Names that only make sense inside a network, and IP literals in private ranges
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '').toLowerCase();
+  if (host === 'localhost' || /\.(localhost|local|internal)$/.test(host)) return true;
+  return isPrivateAddress(host);
+}
+
+// A public name can still resolve to a private address. Used as the request's DNS
+// lookup, so the connection goes to exactly the addresses that were checked.
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+    const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+    if (blocked) {
+      callback(new Error(`Refusing to deliver to ${hostname}, which resolves to private address ${blocked.address}`), '');
+    } else if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+interface PostOptions {
+  headers: Record<string, string>;
+  timeoutMs: number;
+  allowPrivateHosts: boolean;
+}
+
+// POST a body and resolve with the response status. Redirects are not followed:
+// a public target could otherwise send the delivery on to an internal address.
+function post(url: string, body: string, { headers, timeoutMs, allowPrivateHosts }: PostOptions): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const { hostname, protocol } = new URL(url);
+    if (!allowPrivateHosts && isPrivateHost(hostname)) {
+      reject(new Error(`Refusing to deliver to private host ${hostname}`));
+      return;
+    }
+    const client = protocol === 'https:' ? https : http;
+
+    const request = client.request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup: allowPrivateHosts ? undefined : publicLookup,
+      timeout: timeoutMs,
+    }, (response) => {
+      response.resume();
+      resolve(response.statusCode || 0);
+    });
+
+    request.on('timeout', () => {
+      request.destroy(new Error(`Timed out after ${timeoutMs}ms`));
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+const RECENT_DELIVERIES = 200;
+
+// HMAC-SHA256 over "<timestamp>.<body>", sent as X-Webhook-Signature: sha256=<hex>.
+// Receivers recompute it with their secret and should reject stale timestamps.
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+// Validate a subscription request body. Throws with a client-facing message.
+export function parseSubscription(
+  body: unknown,
+  { allowPrivateHosts = ALLOW_PRIVATE_HOSTS }: ParseSubscriptionOptions = {},
+): Omit<WebhookSubscription, 'id' | 'secret' | 'createdAt'> & { secret?: string } {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new Error('subscription must be a JSON object');
+  }
+  const input = body as Record<string, unknown>;
+
+  let url: URL;
+  try {
+    url = new URL(String(input.url));
+  } catch {
+    throw new Error('url must be an absolute http(s) URL');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error('url must be an absolute http(s) URL');
+  }
+  if (!allowPrivateHosts && isPrivateHost(url.hostname)) {
+    throw new Error('url must not point at a loopback, private or link-local host');
+  }
+
+  const events = input.events === undefined ? ['quake.created'] : input.events;
+  if (!Array.isArray(events) || events.length === 0 || events.some(event => !EVENT_TYPES.includes(event))) {
+    throw new Error(`events must be a non-empty list of: ${EVENT_TYPES.join(', ')}`);
+  }
+  if (input.secret !== undefined && (typeof input.secret !== 'string' || input.secret.length < 16)) {
+    throw new Error('secret must be a string of at least 16 characters');
+  }
+  if (input.rules !== undefined && (typeof input.rules !== 'object' || input.rules === null)) {
+    throw new Error('rules must be an object');
+  }
+
+  return {
+    url: url.toString(),
+    secret: input.secret as string | undefined,
+    description: typeof input.description === 'string' ? input.description : undefined,
+    events: events as WebhookEventType[],
+    rules: parseFilters((input.rules || {}) as Record<string, unknown>),
+  };
+}
+
+// Sends signed JSON notifications for new and revised earthquakes that match
+// registered subscriptions. Deliveries are retried with exponential backoff and
+// every outcome is appended to a JSON-lines delivery log.
+export class WebhookDispatcher {
+  private subscriptions = new Map<string, WebhookSubscription>();
+  private recent: WebhookDelivery[] = [];
+  private loaded = false;
+  private readonly options: Required<WebhookDispatcherOptions>;
+
+  constructor(options: WebhookDispatcherOptions = {}) {
+    this.options = {
+      subscriptionsPath: DEFAULT_WEBHOOKS_PATH,
+      deliveryLogPath: DEFAULT_DELIVERY_LOG_PATH,
+      maxAttempts: 5,
+      retryBaseMs: 2000,
+      timeoutMs: 10000,
+      maxEventAgeMs: 24 * 60 * 60 * 1000,
+      allowPrivateHosts: ALLOW_PRIVATE_HOSTS,
+      ...options,
+    };
+  }
+
+  async load(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+    try {
+      const stored = JSON.parse(await fs.readFile(this.options.subscriptionsPath, 'utf8')) as WebhookSubscription[];
+      stored.forEach(subscription => this.subscriptions.set(subscription.id, subscription));
+      console.log(`🔔 Loaded ${this.subscriptions.size} webhook subscriptions`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') throw error;
+    }
+  }
+
+  list(): WebhookSubscription[] {
+    return Array.from(this.subscriptions.values());
+  }
+
+  async add(input: ReturnType<typeof parseSubscription>): Promise<WebhookSubscription> {
+    await this.load();
+    const subscription: WebhookSubscription = {
+      ...input,
+      id: randomUUID(),
+      secret: input.secret || randomBytes(32).toString('hex'),
+      createdAt: Date.now(),
+    };
+    this.subscriptions.set(subscription.id, subscription);
+    await this.save();
+    return subscription;
+  }
+
+  async remove(id: string): Promise<boolean> {
+    await this.load();
+    const removed = this.subscriptions.delete(id);
+    if (removed) await this.save();
+    return removed;
+  }
+
+  // Newest first
+  deliveries(subscriptionId?: string): WebhookDelivery[] {
+    return this.recent
+      .filter(delivery => !subscriptionId || delivery.subscriptionId === subscriptionId)
+      .reverse();
+  }
+
+  // Queue deliveries for an ingestion result; returns once all of them have finished
+  handle({ created, updated }: Pick<IngestResult, 'created' | 'updated'>): Promise<WebhookDelivery[]> {
+    const cutoff = Date.now() - this.options.maxEventAgeMs;
+    const pending: Promise<WebhookDelivery>[] = [];
+
+    const dispatch = (event: WebhookEventType, entry: CatalogEntry) => {
+      if (entry.time < cutoff) return;
+      for (const subscription of this.subscriptions.values()) {
+        if (subscription.events.includes(event) && matchesFilters(entry, subscription.rules)) {
+          pending.push(this.deliver(subscription, event, entry));
+        }
+      }
+    };
+
+    created.forEach(entry => dispatch('quake.created', entry));
+    updated.forEach(entry => dispatch('quake.updated', entry));
+    return Promise.all(pending);
+  }
+
+  private async deliver(subscription: WebhookSubscription, event: WebhookEventType, entry: CatalogEntry): Promise<WebhookDelivery> {
+    const delivery: WebhookDelivery = {
+      id: randomUUID(),
+      subscriptionId: subscription.id,
+      event,
+      earthquakeId: entry.id,
+      url: subscription.url,
+      status: 'pending',
+      attempts: 0,
+      responseStatus: null,
+      error: null,
+      createdAt: Date.now(),
+      finishedAt: null,
+    };
+    this.recent.push(delivery);
+    if (this.recent.length > RECENT_DELIVERIES) this.recent.shift();
+
+    const body = JSON.stringify({
+      id: delivery.id,
+      type: event,
+      createdAt: new Date(delivery.createdAt).toISOString(),
+      subscriptionId: subscription.id,
+      data: toEarthquake(entry),
+    });
+
+    while (delivery.attempts < this.options.maxAttempts) {
+      delivery.attempts++;
+      const timestamp = Math.floor(Date.now() / 1000);
+      try {
+        const status = await post(subscription.url, body, {
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'phivolcs-scraper-webhooks',
+            'X-Webhook-Id': delivery.id,
+            'X-Webhook-Event': event,
+            'X-Webhook-Timestamp': String(timestamp),
+            'X-Webhook-Signature': signPayload(subscription.secret, timestamp, body),
+          },
+          timeoutMs: this.options.timeoutMs,
+          allowPrivateHosts: this.options.allowPrivateHosts,
+        });
+        delivery.responseStatus = status;
+        if (status >= 200 && status < 300) {
+          delivery.status = 'delivered';
+          delivery.error = null;
+          break;
+        }
+        delivery.error = status >= 300 && status < 400 ? `HTTP ${status} (redirects are not followed)` : `HTTP ${status}`;
+      } catch (error) {
+        delivery.responseStatus = null;
+        delivery.error = error instanceof Error ? error.message : String(error);
+      }
+
+      if (delivery.attempts < this.options.maxAttempts) {
+        await sleep(this.options.retryBaseMs * 2 ** (delivery.attempts - 1));
+      }
+    }
+
+    if (delivery.status !== 'delivered') {
+      delivery.status = 'failed';
+      console.warn(`⚠️  Webhook ${subscription.id} failed for ${entry.id} after ${delivery.attempts} attempts: ${delivery.error}`);
+    }
+    delivery.finishedAt = Date.now();
+    await this.log(delivery);
+    return delivery;
+  }
+
+  private async log(delivery: WebhookDelivery): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(this.options.deliveryLogPath), { recursive: true });
+      await fs.appendFile(this.options.deliveryLogPath, JSON.stringify(delivery) + '\n', 'utf8');
+    } catch (error) {
+      console.error('❌ Failed to write webhook delivery log:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  private async save(): Promise<void> {
+    const tmpPath = `${this.options.subscriptionsPath}.tmp`;
+    await fs.mkdir(path.dirname(this.options.subscriptionsPath), { recursive: true });
+    await fs.writeFile(tmpPath, JSON.stringify(this.list(), null, 2), 'utf8');
+    await fs.rename(tmpPath, this.options.subscriptionsPath);
+  }
+}
@@ -0,0 +1,67 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import type { ServerResponse } from 'http';
+import { abortable, disconnectSignal, sleep, withTimeout } from '../src/abort.js';
+
+test('abortable rejects with the abort reason without waiting for the promise', async () => {
+  const controller = new AbortController();
+  const pending = abortable(new Promise(() => {}), controller.signal);
+  controller.abort(new Error('stop'));
+  await assert.rejects(pending, /stop/);
+
+  assert.equal(await abortable(Promise.resolve(1), new AbortController().signal), 1);
+  await assert.rejects(abortable(Promise.resolve(1), AbortSignal.abort(new Error('already'))), /already/);
+});
+
+test('sleep can be cut short', async () => {
+  const controller = new AbortController();
+  const started = Date.now();
+  const sleeping = sleep(1000, controller.signal);
+  controller.abort(new Error('woken'));
+  await assert.rejects(sleeping, /woken/);
+  assert.ok(Date.now() - started < 500);
+  await assert.rejects(sleep(1000, AbortSignal.abort(new Error('already'))), /already/);
+});
+
+test('an aborted sleep stops its timer', async () => {
+  const clearTimeoutSpy = mock.method(globalThis, 'clearTimeout');
+  try {
+    const controller = new AbortController();
+    const sleeping = sleep(60 * 1000, controller.signal);
+    controller.abort(new Error('woken'));
+    await assert.rejects(sleeping, /woken/);
+    assert.equal(clearTimeoutSpy.mock.callCount(), 1);
+  } finally {
+    clearTimeoutSpy.mock.restore();
+  }
+});
+
+test('withTimeout aborts with its reason, or the parent\'s', async () => {
+  const timed = withTimeout(5, new Error('too slow'));
+  await sleep(20);
+  assert.match(timed.signal.reason.message, /too slow/);
+
+  const parent = new AbortController();
+  const child = withTimeout(1000, new Error('too slow'), parent.signal);
+  parent.abort(new Error('client gone'));
+  assert.match(child.signal.reason.message, /client gone/);
+  child.clear();
+
+  const cleared = withTimeout(5, new Error('too slow'));
+  cleared.clear();
+  await sleep(20);
+  assert.equal(cleared.signal.aborted, false);
+});
+
+test('disconnectSignal aborts only when the response was not finished', () => {
+  const gone = Object.assign(new EventEmitter(), { writableFinished: false }) as unknown as ServerResponse;
+  const goneSignal = disconnectSignal(gone);
+  gone.emit('close');
+  assert.equal(goneSignal.aborted, true);
+
+  const sent = Object.assign(new EventEmitter(), { writableFinished: true }) as unknown as ServerResponse;
+  const sentSignal = disconnectSignal(sent);
+  sent.emit('close');
+  assert.equal(sentSignal.aborted, false);
+});
@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { currentMonth, MonthReport, monthRange, needsBackfill, parseArgs } from '../src/backfill.js';
+
+const report = (month: string, status: MonthReport['status'], finishedAt = '2025-11-16T00:00:00.000Z'): MonthReport => ({
+  month,
+  status,
+  scraped: 0,
+  created: 0,
+  updated: 0,
+  attempts: 1,
+  durationMs: 0,
+  finishedAt,
+});
+
+test('lists every month of a range, across years', () => {
+  assert.deepEqual(monthRange('2024-11', '2025-02'), ['2024-11', '2024-12', '2025-01', '2025-02']);
+  assert.deepEqual(monthRange('2024-3', '2024-03'), ['2024-03']);
+  assert.throws(() => monthRange('2024-13', '2025-01'), /Invalid month "2024-13"/);
+});
+
+test('parses arguments and defaults --to to the current PHT month', () => {
+  const options = parseArgs(['--from', '2018-01', '--delay-ms', '100', '--retries', '0', '--checkpoint', 'tmp/checkpoint.json', '--force']);
+  assert.equal(options.from, '2018-01');
+  assert.equal(options.to, currentMonth());
+  assert.equal(options.delayMs, 100);
+  assert.equal(options.retries, 0);
+  assert.equal(options.checkpointPath, path.resolve('tmp/checkpoint.json'));
+  assert.equal(options.force, true);
+
+  assert.throws(() => parseArgs([]), /--from YYYY-MM is required/);
+  assert.throws(() => parseArgs(['--from', '2025-01', '--to', '2024-12']), /must not be after/);
+  assert.throws(() => parseArgs(['--from', '2025-01', '--delay-ms', '-1']), /--delay-ms/);
+  assert.throws(() => parseArgs(['--from']), /Missing value for --from/);
+  assert.throws(() => parseArgs(['--from', '2025-01', '--verbose']), /Unknown argument: --verbose/);
+});
+
+test('skips finished months but always rescrapes the current one', () => {
+  // 20 November 2025, 10:00 PHT
+  const now = Date.UTC(2025, 10, 20, 2, 0);
+  assert.equal(currentMonth(now), '2025-11');
+  // 1 December 2025, 00:30 PHT is still 30 November in UTC
+  assert.equal(currentMonth(Date.UTC(2025, 10, 30, 16, 30)), '2025-12');
+
+  assert.equal(needsBackfill('2025-10', undefined, false, now), true);
+  assert.equal(needsBackfill('2025-10', report('2025-10', 'done'), false, now), false);
+  assert.equal(needsBackfill('2025-10', report('2025-10', 'missing'), false, now), false);
+  assert.equal(needsBackfill('2025-10', report('2025-10', 'failed'), false, now), true);
+  assert.equal(needsBackfill('2025-10', report('2025-10', 'done'), true, now), true);
+  assert.equal(needsBackfill('2025-11', report('2025-11', 'done'), false, now), true);
+  assert.equal(needsBackfill('2025-11', report('2025-11', 'missing'), false, now), true);
+});
+
+test('rescrapes a month last checkpointed before it ended', () => {
+  const now = Date.UTC(2025, 10, 20, 2, 0);
+  // 31 October 2025, 22:00 PHT: the archive page wasn't published yet
+  const duringOctober = '2025-10-31T14:00:00.000Z';
+  assert.equal(needsBackfill('2025-10', report('2025-10', 'missing', duringOctober), false, now), true);
+  assert.equal(needsBackfill('2025-10', report('2025-10', 'done', duringOctober), false, now), true);
+  // 1 November 2025, 00:30 PHT is after October ended in PHT
+  const afterOctober = '2025-10-31T16:30:00.000Z';
+  assert.equal(needsBackfill('2025-10', report('2025-10', 'missing', afterOctober), false, now), false);
+  assert.equal(needsBackfill('2025-10', report('2025-10', 'done', afterOctober), false, now), false);
+});
@@ -0,0 +1,153 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import type { Browser, Page } from 'puppeteer';
+import { BrowserLaunchError, BrowserPool } from '../src/browserPool.js';
+
+mock.method(console, 'log', () => {});
+mock.method(console, 'warn', () => {});
+mock.method(console, 'error', () => {});
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Just enough of puppeteer's Browser and Page for the pool
+class FakeBrowser extends EventEmitter {
+  connected = true;
+  pagesOpened = 0;
+  closed = false;
+
+  async newPage() {
+    this.pagesOpened++;
+    let closed = false;
+    return {
+      goto: async () => null,
+      close: async () => { closed = true; },
+      isClosed: () => closed,
+    } as unknown as Page;
+  }
+
+  async close() {
+    this.closed = true;
+    this.connected = false;
+  }
+
+  crash() {
+    this.connected = false;
+    this.emit('disconnected');
+  }
+}
+
+function fakeLauncher() {
+  const browsers: FakeBrowser[] = [];
+  const launch = async () => {
+    const browser = new FakeBrowser();
+    browsers.push(browser);
+    return browser as unknown as Browser;
+  };
+  return { browsers, launch };
+}
+
+test('keeps a browser warm and recycles its page between requests', async () => {
+  const { browsers, launch } = fakeLauncher();
+  const pool = new BrowserPool(launch);
+
+  assert.equal(await pool.withPage(async () => 'a'), 'a');
+  assert.equal(await pool.withPage(async () => 'b'), 'b');
+
+  assert.equal(browsers.length, 1);
+  assert.equal(browsers[0].pagesOpened, 1);
+  assert.deepEqual(pool.stats(), { browsers: 1, activePages: 0, idlePages: 1, waiting: 0, launched: 1, retired: 0, crashed: 0 });
+  await pool.close();
+  assert.equal(browsers[0].closed, true);
+});
+
+test('makes requests wait when every page slot is taken', async () => {
+  const { browsers, launch } = fakeLauncher();
+  const pool = new BrowserPool(launch, { maxBrowsers: 1, maxPagesPerBrowser: 1 });
+  let active = 0;
+  let maxActive = 0;
+  const use = async () => {
+    active++;
+    maxActive = Math.max(maxActive, active);
+    await sleep(10);
+    active--;
+  };
+
+  await Promise.all([pool.withPage(use), pool.withPage(use), pool.withPage(use)]);
+
+  assert.equal(maxActive, 1);
+  assert.equal(browsers.length, 1);
+  await pool.close();
+});
+
+test('retires a browser after maxUses pages', async () => {
+  const { browsers, launch } = fakeLauncher();
+  const pool = new BrowserPool(launch, { maxUses: 2 });
+
+  for (let i = 0; i < 3; i++) {
+    await pool.withPage(async () => {});
+  }
+
+  assert.equal(browsers.length, 2);
+  assert.equal(browsers[0].closed, true);
+  assert.equal(pool.stats().retired, 1);
+  await pool.close();
+});
+
+test('retries on a fresh browser when Chromium crashes mid-request', async () => {
+  const { browsers, launch } = fakeLauncher();
+  const pool = new BrowserPool(launch);
+  let attempts = 0;
+
+  const result = await pool.withPage(async () => {
+    attempts++;
+    if (attempts === 1) {
+      browsers[0].crash();
+      throw new Error('Protocol error: Target closed');
+    }
+    return 'ok';
+  });
+
+  assert.equal(result, 'ok');
+  assert.equal(browsers.length, 2);
+  assert.equal(pool.stats().crashed, 1);
+  await pool.close();
+});
+
+test('reports launch failures and acquire timeouts', async () => {
+  const failing = new BrowserPool(async () => { throw new Error('spawn ENOENT'); });
+  await assert.rejects(failing.withPage(async () => {}), BrowserLaunchError);
+
+  const { launch } = fakeLauncher();
+  const pool = new BrowserPool(launch, { maxBrowsers: 1, maxPagesPerBrowser: 1, acquireTimeoutMs: 20 });
+  const busy = pool.withPage(() => sleep(100));
+  await assert.rejects(pool.withPage(async () => {}), /Timed out after 20ms/);
+  await busy;
+  await pool.close();
+});
+
+test('aborting closes the page in use and stops waiting for a slot', async () => {
+  const { browsers, launch } = fakeLauncher();
+  const pool = new BrowserPool(launch, { maxBrowsers: 1, maxPagesPerBrowser: 1 });
+  const controller = new AbortController();
+  let usedPage: Page | undefined;
+
+  const running = pool.withPage(async (page) => {
+    usedPage = page;
+    await sleep(1000);
+  }, { signal: controller.signal });
+  const waiting = pool.withPage(async () => 'never', { signal: controller.signal });
+  await sleep(5);
+  controller.abort(new Error('Client disconnected'));
+
+  await assert.rejects(running, /Client disconnected/);
+  await assert.rejects(waiting, /Client disconnected/);
+  assert.equal(usedPage?.isClosed(), true);
+  assert.equal(pool.stats().activePages, 0);
+  assert.equal(pool.stats().waiting, 0);
+
+  // The slot is free again for the next request
+  assert.equal(await pool.withPage(async () => 'next'), 'next');
+  assert.equal(browsers.length, 1);
+  await pool.close();
+});
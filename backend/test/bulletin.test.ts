@@ -0,0 +1,77 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { BulletinFetcher, parseBulletinHtml } from '../src/bulletin.js';
+import { EarthquakeCatalog } from '../src/catalog.js';
+import { parsePHIVOLCSHtml } from '../src/parser.js';
+
+const fixture = (name: string) =>
+  readFileSync(fileURLToPath(new URL(`./fixtures/${name}`, import.meta.url)), 'utf8');
+
+const BULLETIN_URL = 'https://earthquake.phivolcs.dost.gov.ph/2025_Earthquake_Information/November/2025_1115_2347_B2F.html';
+
+mock.method(console, 'log', () => {});
+
+test('resolves bulletin links in listing rows against the page URL', () => {
+  const { earthquakes } = parsePHIVOLCSHtml(fixture('latest.html'), 'https://earthquake.phivolcs.dost.gov.ph/');
+
+  assert.equal(earthquakes[0].url, 'https://earthquake.phivolcs.dost.gov.ph/2025_Earthquake_Information/November/2025_1116_1435_B1.html');
+  assert.ok(earthquakes.every((eq) => eq.url?.endsWith('.html')));
+});
+
+test('parses a bulletin into structured fields', () => {
+  const bulletin = parseBulletinHtml(fixture('bulletin-2025-1115-2347-B2F.html'), BULLETIN_URL, 1000);
+
+  assert.equal(bulletin.number, 2);
+  assert.equal(bulletin.final, true);
+  assert.equal(new Date(bulletin.time!).toISOString(), '2025-11-15T15:47:00.000Z');
+  assert.equal(bulletin.magnitude, 5.3);
+  assert.equal(bulletin.depth, 17);
+  assert.equal(bulletin.latitude, 9.88);
+  assert.equal(bulletin.longitude, 126.28);
+  assert.equal(bulletin.place, '032 km N 84° E of General Luna (Surigao Del Norte)');
+  assert.equal(bulletin.origin, 'TECTONIC');
+  assert.deepEqual(bulletin.reportedIntensities, [
+    { intensity: 'V', locations: ['General Luna, Del Carmen, SURIGAO DEL NORTE'] },
+    { intensity: 'IV', locations: ['Surigao City', 'Dapa, SURIGAO DEL NORTE'] },
+    { intensity: 'III', locations: ['Butuan City'] },
+  ]);
+  assert.deepEqual(bulletin.instrumentalIntensities.map((report) => report.intensity), ['IV', 'II']);
+  assert.equal(bulletin.expectingDamage, false);
+  assert.equal(bulletin.expectingAftershocks, true);
+  assert.equal(new Date(bulletin.issuedAt!).toISOString(), '2025-11-15T17:12:08.000Z');
+});
+
+test('leaves fields it cannot find empty instead of guessing', () => {
+  const bulletin = parseBulletinHtml('<html><body><p>Under maintenance</p></body></html>', 'https://example.test/bulletin.html');
+
+  assert.equal(bulletin.number, null);
+  assert.equal(bulletin.magnitude, null);
+  assert.equal(bulletin.expectingDamage, null);
+  assert.deepEqual(bulletin.reportedIntensities, []);
+});
+
+test('fetches each bulletin once and stores it on the catalog entry', async () => {
+  const catalog = new EarthquakeCatalog(path.join(mkdtempSync(path.join(tmpdir(), 'bulletin-')), 'catalog.jsonl'));
+  const time = Date.now() - 60 * 1000;
+  await catalog.upsert([{ id: 'a', magnitude: 5.3, place: 'General Luna', time, latitude: 9.88, longitude: 126.28, depth: 17, url: BULLETIN_URL }]);
+
+  const requested: string[] = [];
+  const fetcher = new BulletinFetcher(catalog, {
+    delayMs: 0,
+    fetchPage: async (url) => {
+      requested.push(url);
+      return { url, status: 200, html: fixture('bulletin-2025-1115-2347-B2F.html'), via: 'http' };
+    },
+  });
+
+  const entry = catalog.get('a')!;
+  await Promise.all([fetcher.enqueue([entry]), fetcher.fetch(entry, { immediate: true })]);
+  await fetcher.enqueue([catalog.get('a')!]);
+
+  assert.deepEqual(requested, [BULLETIN_URL]);
+  assert.equal(catalog.get('a')?.bulletin?.reportedIntensities.length, 3);
+});
@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { TtlCache } from '../src/cache.js';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+test('shares one load between concurrent lookups', async () => {
+  const cache = new TtlCache<number>({ name: 'test', ttlMs: 1000, staleMs: 0 });
+  let loads = 0;
+  const load = async () => {
+    loads++;
+    await sleep(10);
+    return loads;
+  };
+
+  const [a, b] = await Promise.all([cache.get('k', load), cache.get('k', load)]);
+  const c = await cache.get('k', load);
+
+  assert.equal(loads, 1);
+  assert.equal(a.value, 1);
+  assert.equal(b.value, 1);
+  assert.equal(c.state, 'hit');
+});
+
+test('serves stale values while refreshing in the background', async () => {
+  const cache = new TtlCache<string>({ name: 'test', ttlMs: 20, staleMs: 1000 });
+  await cache.get('k', async () => 'old');
+  await sleep(30);
+
+  const stale = await cache.get('k', async () => 'new');
+  await sleep(5);
+  const refreshed = await cache.get('k', async () => 'newer');
+
+  assert.deepEqual([stale.state, stale.value], ['stale', 'old']);
+  assert.deepEqual([refreshed.state, refreshed.value], ['hit', 'new']);
+});
+
+test('does not cache failed loads', async () => {
+  const cache = new TtlCache<string>({ name: 'test', ttlMs: 1000, staleMs: 0 });
+
+  await assert.rejects(cache.get('k', async () => { throw new Error('PHIVOLCS down'); }), /PHIVOLCS down/);
+  assert.equal((await cache.get('k', async () => 'ok')).state, 'miss');
+  cache.invalidate('k');
+  assert.equal(cache.size, 0);
+});
+
+test('cancels a shared load only once every caller has aborted', async () => {
+  const cache = new TtlCache<string>({ name: 'test', ttlMs: 1000, staleMs: 0 });
+  let loadSignal: AbortSignal | undefined;
+  const load = (signal: AbortSignal) => {
+    loadSignal = signal;
+    return new Promise<string>((resolve, reject) => {
+      const timer = setTimeout(() => resolve('done'), 50);
+      signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      });
+    });
+  };
+  const first = new AbortController();
+  const second = new AbortController();
+
+  const a = cache.get('k', load, first.signal);
+  const b = cache.get('k', load, second.signal);
+  first.abort(new Error('first gone'));
+  await assert.rejects(a, /first gone/);
+  assert.equal(loadSignal?.aborted, false);
+
+  second.abort(new Error('second gone'));
+  await assert.rejects(b, /second gone/);
+  assert.equal(loadSignal?.aborted, true);
+  assert.equal((await cache.get('k', async () => 'fresh')).value, 'fresh');
+});
+
+test('keeps a load running for callers without a signal', async () => {
+  const cache = new TtlCache<string>({ name: 'test', ttlMs: 1000, staleMs: 0 });
+  const controller = new AbortController();
+  let aborted = false;
+  const load = async (signal: AbortSignal) => {
+    signal.addEventListener('abort', () => { aborted = true; });
+    await sleep(10);
+    return 'done';
+  };
+
+  const withSignal = cache.get('k', load, controller.signal);
+  const pinned = cache.get('k', load);
+  controller.abort(new Error('gone'));
+
+  await assert.rejects(withSignal, /gone/);
+  assert.equal((await pinned).value, 'done');
+  assert.equal(aborted, false);
+});
@@ -0,0 +1,138 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { EarthquakeCatalog } from '../src/catalog.js';
+import { eventId } from '../src/eventId.js';
+
+const quake = (overrides: Partial<{ time: number; latitude: number; longitude: number; depth: number; magnitude: number; place: string }> = {}) => {
+  const fields = {
+    time: Date.UTC(2025, 10, 16, 6, 35),
+    latitude: 6.34,
+    longitude: 126.35,
+    depth: 48,
+    magnitude: 4.1,
+    place: '046 km S 42° E of Governor Generoso (Davao Oriental)',
+    ...overrides,
+  };
+  return { id: eventId(fields), ...fields };
+};
+
+// Keep catalog progress logs out of the test reporter output
+mock.method(console, 'log', () => {});
+
+const tempCatalogPath = () => path.join(mkdtempSync(path.join(tmpdir(), 'catalog-')), 'catalog.jsonl');
+
+test('creates events once and reports repeats as unchanged', async () => {
+  const catalog = new EarthquakeCatalog(tempCatalogPath());
+
+  const first = await catalog.upsert([quake()], 1000);
+  const second = await catalog.upsert([quake()], 2000);
+
+  assert.equal(first.created.length, 1);
+  assert.equal(second.created.length, 0);
+  assert.equal(second.unchanged, 1);
+  assert.equal(catalog.get(quake().id)?.firstSeen, 1000);
+  assert.equal(catalog.get(quake().id)?.lastSeen, 2000);
+});
+
+test('keeps the original id and history when PHIVOLCS revises an event', async () => {
+  const filePath = tempCatalogPath();
+  const catalog = new EarthquakeCatalog(filePath);
+  const original = quake();
+  const revised = quake({ magnitude: 4.4, latitude: 6.38 });
+
+  await catalog.upsert([original], 1000);
+  const result = await catalog.upsert([revised], 2000);
+
+  assert.equal(result.updated.length, 1);
+  const entry = result.updated[0];
+  assert.equal(entry.id, original.id);
+  assert.equal(entry.magnitude, 4.4);
+  assert.equal(entry.lastUpdated, 2000);
+  assert.deepEqual(entry.aliases, [original.id, revised.id]);
+  assert.equal(entry.revisions[0].magnitude, 4.1);
+
+  // Survives a reload and resolves the revised id to the same event
+  const reloaded = new EarthquakeCatalog(filePath);
+  await reloaded.load();
+  assert.equal(reloaded.size, 1);
+  assert.equal(reloaded.get(revised.id)?.id, original.id);
+});
+
+test('does not merge distinct quakes from the same scrape', async () => {
+  const catalog = new EarthquakeCatalog(tempCatalogPath());
+  const result = await catalog.upsert([quake(), quake({ latitude: 6.5, magnitude: 2.9 })]);
+
+  assert.equal(result.created.length, 2);
+});
+
+test('queries by Philippine calendar month', async () => {
+  const catalog = new EarthquakeCatalog(tempCatalogPath());
+  // 12:05 AM PHT on 1 December is still November in UTC
+  await catalog.upsert([quake({ time: Date.UTC(2025, 10, 30, 16, 5) })]);
+
+  assert.equal(catalog.query({ year: 2025, month: 12 }).length, 1);
+  assert.equal(catalog.query({ year: 2025, month: 11 }).length, 0);
+});
+
+test('keeps an aftershock a minute later and a few km away as its own event', async () => {
+  const catalog = new EarthquakeCatalog(tempCatalogPath());
+  const mainshock = quake();
+  const aftershock = quake({ time: mainshock.time + 60 * 1000, latitude: 6.52, magnitude: 3.1 });
+
+  await catalog.upsert([mainshock], 1000);
+  // Newest first, as PHIVOLCS lists them
+  const result = await catalog.upsert([aftershock, mainshock], 2000);
+
+  assert.equal(result.created.length, 1);
+  assert.equal(result.unchanged, 1);
+  assert.equal(catalog.size, 2);
+  assert.deepEqual(catalog.get(mainshock.id)?.revisions, []);
+  assert.equal(catalog.get(aftershock.id)?.id, aftershock.id);
+});
+
+test('matches a revision with a shifted origin time by its bulletin link', async () => {
+  const catalog = new EarthquakeCatalog(tempCatalogPath());
+  const url = 'https://earthquake.phivolcs.dost.gov.ph/2025_Earthquake_Information/November/2025_1116_1435_B1.html';
+  const original = { ...quake(), url };
+  const revised = { ...quake({ time: original.time + 60 * 1000, magnitude: 4.3 }), url };
+
+  await catalog.upsert([original], 1000);
+  const result = await catalog.upsert([revised], 2000);
+
+  assert.equal(result.updated.length, 1);
+  assert.equal(catalog.size, 1);
+  assert.equal(catalog.get(revised.id)?.id, original.id);
+});
+
+test('concurrent callers wait for the catalog file to load', async () => {
+  const filePath = tempCatalogPath();
+  await new EarthquakeCatalog(filePath).upsert([quake()], 1000);
+
+  const catalog = new EarthquakeCatalog(filePath);
+  const other = quake({ time: Date.UTC(2025, 10, 17, 1, 0), latitude: 12.3 });
+  await Promise.all([catalog.load(), catalog.upsert([other], 2000)]);
+
+  assert.equal(catalog.size, 2);
+  const reloaded = new EarthquakeCatalog(filePath);
+  await reloaded.load();
+  assert.equal(reloaded.size, 2);
+});
+
+test('an older observation never rolls back a revision', async () => {
+  const catalog = new EarthquakeCatalog(tempCatalogPath());
+  const original = quake({ magnitude: 4.0 });
+
+  await catalog.upsert([original], 1000);
+  await catalog.upsert([quake({ magnitude: 4.5 })], 3000);
+  // A snapshot fetched in between is replayed
+  const result = await catalog.upsert([original], 2000);
+
+  assert.equal(result.unchanged, 1);
+  const entry = catalog.get(original.id);
+  assert.equal(entry?.magnitude, 4.5);
+  assert.equal(entry?.revisions.length, 1);
+  assert.equal(entry?.lastSeen, 3000);
+});
@@ -0,0 +1,66 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { IncomingMessage } from 'http';
+import accepts from 'accepts';
+import { BadRequestError, parseEarthquakesRequest } from '../src/earthquakesApi.js';
+
+const acceptsJson = () => 'application/json';
+
+test('resolves the format from the path extension, ?format= or Accept', () => {
+  assert.equal(parseEarthquakesRequest({ query: {}, pathExtension: 'geojson', accepts: acceptsJson }).format, 'geojson');
+  assert.equal(parseEarthquakesRequest({ query: { format: 'xml' }, accepts: acceptsJson }).format, 'quakeml');
+  assert.equal(parseEarthquakesRequest({ query: {}, accepts: () => 'text/csv' }).format, 'csv');
+  assert.equal(parseEarthquakesRequest({ query: {}, accepts: () => false }).format, 'json');
+});
+
+test('negotiates Accept headers the way Express does', () => {
+  const formatFor = (accept?: string) => parseEarthquakesRequest({
+    query: {},
+    accepts: (types) => accepts({ headers: { accept } } as IncomingMessage).type(types) as string | false,
+  }).format;
+
+  // A browser opening the URL lists application/xml, but wants a page
+  assert.equal(formatFor('text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8'), 'json');
+  assert.equal(formatFor('*/*'), 'json');
+  assert.equal(formatFor(undefined), 'json');
+  assert.equal(formatFor('application/xml'), 'quakeml');
+  assert.equal(formatFor('application/vnd.quakeml+xml'), 'quakeml');
+  assert.equal(formatFor('application/geo+json, application/json;q=0.5'), 'geojson');
+  assert.equal(formatFor('text/csv'), 'csv');
+});
+
+test('turns a year-only query into a range and keeps year/month otherwise', () => {
+  const byYear = parseEarthquakesRequest({ query: { year: '2024' }, accepts: acceptsJson });
+  assert.deepEqual(byYear.range, { start: Date.UTC(2023, 11, 31, 16), end: Date.UTC(2024, 11, 31, 16) });
+
+  const byMonth = parseEarthquakesRequest({ query: { year: '2024', month: '3' }, accepts: acceptsJson });
+  assert.equal(byMonth.range, undefined);
+  assert.equal(byMonth.year, 2024);
+  assert.equal(byMonth.month, 3);
+});
+
+test('rejects periods in the future', () => {
+  const nextYear = new Date().getUTCFullYear() + 1;
+  const isFuture = (error: unknown) => error instanceof BadRequestError && /in the future/.test(error.message);
+
+  assert.throws(() => parseEarthquakesRequest({ query: { year: String(nextYear) }, accepts: acceptsJson }), isFuture);
+  assert.throws(() => parseEarthquakesRequest({ query: { year: String(nextYear), month: '1' }, accepts: acceptsJson }), isFuture);
+  assert.throws(() => parseEarthquakesRequest({ query: { start: `${nextYear}-01-01` }, accepts: acceptsJson }), isFuture);
+  // A range that only ends in the future is fine
+  assert.ok(parseEarthquakesRequest({ query: { start: `${nextYear - 1}-01-01`, end: `${nextYear}-06-01` }, accepts: acceptsJson }).range);
+});
+
+test('rejects bad queries with a titled BadRequestError', () => {
+  assert.throws(
+    () => parseEarthquakesRequest({ query: { format: 'kml' }, accepts: acceptsJson }),
+    (error: unknown) => error instanceof BadRequestError && error.title === 'Invalid query',
+  );
+  assert.throws(
+    () => parseEarthquakesRequest({ query: { start: '2024-05-01', end: '2024-04-01' }, accepts: acceptsJson }),
+    (error: unknown) => error instanceof BadRequestError && error.title === 'Invalid date range',
+  );
+  assert.throws(
+    () => parseEarthquakesRequest({ query: { start: '2020-01-01', end: '2024-01-01' }, accepts: acceptsJson }),
+    /limited to 24 months/,
+  );
+});
@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { eventId, eventIdentityKey } from '../src/eventId.js';
+
+const quake = {
+  time: Date.UTC(2025, 10, 16, 6, 35),
+  latitude: 6.34,
+  longitude: 126.35,
+  depth: 48,
+  magnitude: 4.1,
+};
+
+test('keys an event by its values at the precision PHIVOLCS publishes', () => {
+  assert.equal(eventIdentityKey(quake), `${quake.time / 60000}|6.34|126.35|48|4.1`);
+
+  // Seconds, float noise and sub-kilometre depths don't change the key
+  assert.equal(eventIdentityKey({
+    time: quake.time + 59 * 1000,
+    latitude: 6.3400000001,
+    longitude: 126.34999999,
+    depth: 48.4,
+    magnitude: 4.0999999,
+  }), eventIdentityKey(quake));
+
+  // A change PHIVOLCS would publish does
+  assert.notEqual(eventIdentityKey({ ...quake, time: quake.time + 60 * 1000 }), eventIdentityKey(quake));
+  assert.notEqual(eventIdentityKey({ ...quake, latitude: 6.35 }), eventIdentityKey(quake));
+  assert.notEqual(eventIdentityKey({ ...quake, longitude: 126.36 }), eventIdentityKey(quake));
+  assert.notEqual(eventIdentityKey({ ...quake, depth: 49 }), eventIdentityKey(quake));
+  assert.notEqual(eventIdentityKey({ ...quake, magnitude: 4.2 }), eventIdentityKey(quake));
+});
+
+test('treats missing values as zero', () => {
+  const key = eventIdentityKey({ time: quake.time, latitude: NaN, longitude: null, depth: undefined, magnitude: 0 });
+  assert.equal(key, `${quake.time / 60000}|0.00|0.00|0|0.0`);
+});
+
+test('derives the same id from the same values on every scrape', () => {
+  const id = eventId(quake);
+  assert.match(id, /^phivolcs-[0-9a-f]{16}$/);
+  assert.equal(eventId({ ...quake }), id);
+  assert.equal(eventId({ ...quake, time: quake.time + 30 * 1000, depth: 47.6 }), id);
+  assert.notEqual(eventId({ ...quake, magnitude: 4.3 }), id);
+});
@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { CatalogEntry } from '../src/catalog.js';
+import { CSV_COLUMNS, toCSV } from '../src/csv.js';
+import { toQuakeML } from '../src/quakeml.js';
+
+const entry: CatalogEntry = {
+  id: 'phivolcs-289b666c79dcee6b',
+  magnitude: 4.1,
+  place: '046 km S 42° E of Governor Generoso, "Davao Oriental" & nearby',
+  time: Date.UTC(2025, 10, 16, 6, 35),
+  latitude: 6.34,
+  longitude: 126.35,
+  depth: 48,
+  firstSeen: Date.UTC(2025, 10, 16, 6, 40),
+  lastSeen: Date.UTC(2025, 10, 16, 7, 0),
+  lastUpdated: Date.UTC(2025, 10, 16, 6, 40),
+  aliases: ['phivolcs-289b666c79dcee6b'],
+  revisions: [],
+};
+
+test('writes CSV with a stable header and UTC/PHT timestamps', () => {
+  const [header, row, end] = toCSV([entry]).split('\r\n');
+
+  assert.equal(header, CSV_COLUMNS.join(','));
+  assert.equal(
+    row,
+    'phivolcs-289b666c79dcee6b,2025-11-16T06:35:00Z,2025-11-16T14:35:00+08:00,6.34,126.35,48,4.1,' +
+      '"046 km S 42° E of Governor Generoso, ""Davao Oriental"" & nearby",,2025-11-16T06:40:00Z,2025-11-16T06:40:00Z',
+  );
+  assert.equal(end, '');
+});
+
+test('writes QuakeML events with PHIVOLCS origins and magnitudes', () => {
+  const xml = toQuakeML([entry], Date.UTC(2025, 10, 17));
+
+  assert.match(xml, /^<\?xml version="1\.0" encoding="UTF-8"\?>\n<q:quakeml xmlns="http:\/\/quakeml\.org\/xmlns\/bed\/1\.2"/);
+  assert.match(xml, /<event publicID="smi:ph\.gov\.dost\.phivolcs\/earthquake\/event\/phivolcs-289b666c79dcee6b">/);
+  assert.match(xml, /<time><value>2025-11-16T06:35:00\.000Z<\/value><\/time>/);
+  // Depth is in metres
+  assert.match(xml, /<depth><value>48000<\/value><\/depth>/);
+  assert.match(xml, /<mag><value>4\.1<\/value><\/mag>/);
+  assert.match(xml, /<agencyID>PHIVOLCS<\/agencyID>/);
+  assert.match(xml, /<text>046 km S 42° E of Governor Generoso, &quot;Davao Oriental&quot; &amp; nearby<\/text>/);
+});
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { haversineKm, matchesFilters, paginate, parseFilters, parsePagination } from '../src/filters.js';
+
+const quake = { id: 'q', magnitude: 4.1, place: 'Davao Oriental', time: 0, latitude: 6.34, longitude: 126.35, depth: 48 };
+
+test('parses magnitude, depth, bbox and radius filters', () => {
+  const filters = parseFilters({
+    minMagnitude: '4',
+    maxDepth: '50',
+    bbox: '125,5,127,7',
+    lat: '7.07',
+    lon: '125.61',
+    radiusKm: '150',
+  });
+
+  assert.deepEqual(filters.bbox, [125, 5, 127, 7]);
+  assert.deepEqual(filters.near, { latitude: 7.07, longitude: 125.61, radiusKm: 150 });
+  assert.equal(matchesFilters(quake, filters), true);
+  assert.equal(matchesFilters(quake, { minMagnitude: 4.5 }), false);
+  assert.equal(matchesFilters(quake, { bbox: [120, 10, 122, 15] }), false);
+});
+
+test('rejects invalid filter values', () => {
+  assert.throws(() => parseFilters({ minMagnitude: 'big' }), /minMagnitude must be a number/);
+  assert.throws(() => parseFilters({ minDepth: '50', maxDepth: '10' }), /minDepth/);
+  assert.throws(() => parseFilters({ bbox: '1,2,3' }), /bbox/);
+  assert.throws(() => parseFilters({ lat: '7', lon: '125' }), /radiusKm/);
+  assert.throws(() => parsePagination({ limit: '0' }), /limit/);
+  assert.throws(() => parsePagination({ offset: '-1' }), /offset/);
+});
+
+test('measures great-circle distance and pages results', () => {
+  // Manila to Davao City is roughly 970 km
+  assert.ok(Math.abs(haversineKm(14.5995, 120.9842, 7.0731, 125.6128) - 970) < 15);
+
+  const items = [1, 2, 3, 4, 5];
+  assert.deepEqual(paginate(items, parsePagination({ limit: '2', offset: '1' })), [2, 3]);
+  assert.deepEqual(paginate(items, parsePagination({})), items);
+});
@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { CatalogEntry } from '../src/catalog.js';
+import { toGeoJSON } from '../src/geojson.js';
+
+const entry = (overrides: Partial<CatalogEntry> = {}): CatalogEntry => ({
+  id: 'phivolcs-289b666c79dcee6b',
+  magnitude: 4.1,
+  place: '046 km S 42° E of Governor Generoso (Davao Oriental)',
+  time: Date.UTC(2025, 10, 16, 6, 35),
+  latitude: 6.34,
+  longitude: 126.35,
+  depth: 48,
+  firstSeen: 1000,
+  lastSeen: 2000,
+  lastUpdated: 1500,
+  aliases: ['phivolcs-289b666c79dcee6b'],
+  revisions: [],
+  ...overrides,
+});
+
+test('emits a USGS-style FeatureCollection', () => {
+  const collection = toGeoJSON([entry()], 'http://localhost/api/earthquakes.geojson');
+  const [feature] = collection.features;
+
+  assert.equal(collection.type, 'FeatureCollection');
+  assert.equal(collection.metadata.count, 1);
+  assert.deepEqual(feature.geometry, { type: 'Point', coordinates: [126.35, 6.34, 48] });
+  assert.equal(feature.properties.mag, 4.1);
+  assert.equal(feature.properties.updated, 1500);
+  assert.equal(feature.properties.title, 'M 4.1 - 046 km S 42° E of Governor Generoso (Davao Oriental)');
+});
+
+test('computes a 3D bbox and omits it when empty', () => {
+  const collection = toGeoJSON([entry(), entry({ id: 'b', latitude: 14.6, longitude: 120.98, depth: 10 })], 'url');
+
+  assert.deepEqual(collection.bbox, [120.98, 6.34, 10, 126.35, 14.6, 48]);
+  assert.equal(toGeoJSON([], 'url').bbox, undefined);
+});
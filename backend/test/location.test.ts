@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { haversineKm, matchesFilters, parseFilters } from '../src/filters.js';
+import { parsePlace, quadrantBearing } from '../src/location.js';
+
+test('decomposes a PHIVOLCS place string', () => {
+  const place = '046 km S 42° E of Governor Generoso (Davao Oriental)';
+  const location = parsePlace(place);
+
+  assert.deepEqual(location, {
+    raw: place,
+    distanceKm: 46,
+    bearing: 138,
+    municipality: 'Governor Generoso',
+    province: 'Davao Oriental',
+    reference: null,
+  });
+});
+
+test('converts quadrant and cardinal bearings to degrees from north', () => {
+  assert.equal(quadrantBearing('N', 10, 'E'), 10);
+  assert.equal(quadrantBearing('N', 10, 'W'), 350);
+  assert.equal(quadrantBearing('S', 42, 'E'), 138);
+  assert.equal(quadrantBearing('S', 1, 'W'), 181);
+  assert.equal(quadrantBearing('W'), 270);
+  assert.equal(parsePlace('012 km N of City Of Kidapawan (Cotabato)')?.bearing, 0);
+});
+
+test('locates the reference town back along the bearing from the epicenter', () => {
+  const epicenter = { latitude: 6.34, longitude: 126.35 };
+  const { reference } = parsePlace('046 km S 42° E of Governor Generoso (Davao Oriental)', epicenter)!;
+
+  assert.ok(reference);
+  assert.ok(Math.abs(haversineKm(epicenter.latitude, epicenter.longitude, reference.latitude, reference.longitude) - 46) < 0.1);
+  // The town lies north-west of an epicenter that is south-east of it
+  assert.ok(reference.latitude > epicenter.latitude);
+  assert.ok(reference.longitude < epicenter.longitude);
+});
+
+test('keeps unrecognised places unparsed', () => {
+  assert.equal(parsePlace('Philippines'), null);
+  assert.equal(parsePlace('Unknown Location'), null);
+});
+
+test('filters by province case-insensitively', () => {
+  const place = '046 km S 42° E of Governor Generoso (Davao Oriental)';
+  const quake = { id: 'q', magnitude: 4.1, place, location: parsePlace(place), time: 0, latitude: 6.34, longitude: 126.35, depth: 48 };
+
+  assert.equal(matchesFilters(quake, parseFilters({ province: 'davao oriental' })), true);
+  assert.equal(matchesFilters(quake, parseFilters({ province: 'Surigao Del Norte' })), false);
+  assert.throws(() => parseFilters({ province: ['a', 'b'] }), /province/);
+});
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { TtlCache } from '../src/cache.js';
+import {
+  healthSummary,
+  MetricsRegistry,
+  recordScrape,
+  recordScrapeFailure,
+  registry,
+} from '../src/metrics.js';
+import { parsePHIVOLCSHtml } from '../src/parser.js';
+
+const fixture = (name: string) =>
+  readFileSync(fileURLToPath(new URL(`./fixtures/${name}`, import.meta.url)), 'utf8');
+
+test('renders counters, gauges and histograms in Prometheus text format', () => {
+  const metrics = new MetricsRegistry();
+  metrics.counter('requests_total', 'Requests').inc({ path: '/a "b"' }, 2);
+  metrics.gauge('queue_size', 'Queue size', (gauge) => gauge.set(7));
+  metrics.histogram('duration_seconds', 'Duration', [1, 5]).observe(3);
+
+  assert.equal(metrics.render(), [
+    '# HELP requests_total Requests',
+    '# TYPE requests_total counter',
+    'requests_total{path="/a \\"b\\""} 2',
+    '# HELP queue_size Queue size',
+    '# TYPE queue_size gauge',
+    'queue_size 7',
+    '# HELP duration_seconds Duration',
+    '# TYPE duration_seconds histogram',
+    'duration_seconds_bucket{le="1"} 0',
+    'duration_seconds_bucket{le="5"} 1',
+    'duration_seconds_bucket{le="+Inf"} 1',
+    'duration_seconds_sum 3',
+    'duration_seconds_count 1',
+    '',
+  ].join('\n'));
+  assert.throws(() => metrics.counter('requests_total', 'Again'), /already registered/);
+});
+
+test('counts parsed and rejected rows per scrape', () => {
+  const { method, diagnostics } = parsePHIVOLCSHtml(fixture('malformed-rows.html'));
+  recordScrape({ durationMs: 1500, via: 'http', method, diagnostics });
+
+  const output = registry.render();
+  const rejected = diagnostics.filter((d) => d.status === 'rejected' && d.reason !== 'header').length;
+  assert.match(output, new RegExp(`^phivolcs_rows_seen_total ${diagnostics.length}$`, 'm'));
+  assert.match(output, /^phivolcs_rows_rejected_total\{reason="header"\} \d+$/m);
+  assert.match(output, /^phivolcs_pages_fetched_total\{via="http"\} 1$/m);
+  assert.match(output, /^phivolcs_scrape_duration_seconds_bucket\{le="2"\} 1$/m);
+
+  const health = healthSummary();
+  assert.equal(health.lastScrape?.method, 'table');
+  assert.equal(health.lastScrape?.rowsRejected, rejected);
+});
+
+test('marks the scraper degraded after a failure, but not for a missing archive', () => {
+  recordScrapeFailure(100, new Error('Page not found (404): https://example.test/2031_May.html'));
+  assert.equal(healthSummary().lastScrape?.error, null);
+
+  recordScrapeFailure(100, new Error('Static fetch timeout after 30000ms'));
+  const health = healthSummary();
+  assert.equal(health.status, 'degraded');
+  assert.equal(health.lastScrape?.error, 'Static fetch timeout after 30000ms');
+  assert.equal(health.scrapes.failure, 1);
+});
+
+test('reports the cache hit rate', async () => {
+  const cache = new TtlCache<number>({ name: 'metrics test', ttlMs: 1000, staleMs: 0 });
+  await cache.get('k', async () => 1);
+  await cache.get('k', async () => 2);
+  await cache.get('k', async () => 3);
+
+  assert.equal(healthSummary().cacheHitRate['metrics test'], 0.667);
+  assert.match(registry.render(), /^phivolcs_cache_lookups_total\{cache="metrics test",state="hit"\} 2$/m);
+});
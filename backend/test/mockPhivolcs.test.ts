@@ -0,0 +1,128 @@
+import { test, mock, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { MockPhivolcsServer } from '../src/mockPhivolcs.js';
+
+mock.method(console, 'log', () => {});
+mock.method(console, 'warn', () => {});
+mock.method(console, 'error', () => {});
+
+const phivolcs = new MockPhivolcsServer({ slowMs: 5000 });
+let baseUrl: string;
+let api: typeof import('../src/earthquakesApi.js');
+let ingest: typeof import('../src/ingest.js');
+let scraper: typeof import('../src/scraper.js');
+let source: typeof import('../src/source.js');
+let sourceFormat: typeof import('../src/sourceFormat.js');
+
+before(async () => {
+  baseUrl = await phivolcs.listen();
+  // The source URL is read when the modules load, so point them at the mock first
+  const dir = mkdtempSync(path.join(tmpdir(), 'mock-phivolcs-'));
+  process.env.PHIVOLCS_BASE_URL = baseUrl;
+  process.env.SOURCE_FINGERPRINTS_PATH = path.join(dir, 'fingerprints.json');
+  process.env.CATALOG_PATH = path.join(dir, 'catalog.jsonl');
+  process.env.ARCHIVE_REQUEST_DELAY_MS = '200';
+  process.env.SNAPSHOTS_ENABLED = 'false';
+  process.env.SCRAPER_BROWSER = 'none';
+  process.env.SCRAPER_FETCH_STRATEGY = 'http';
+  api = await import('../src/earthquakesApi.js');
+  ingest = await import('../src/ingest.js');
+  scraper = await import('../src/scraper.js');
+  source = await import('../src/source.js');
+  sourceFormat = await import('../src/sourceFormat.js');
+});
+
+after(() => phivolcs.close());
+
+const setScenario = (name: string) =>
+  fetch(new URL(`__mock/scenario/${name}`, baseUrl), { method: 'POST' });
+
+test('scrapes the latest page and monthly archives from the configured base URL', async () => {
+  assert.equal((await scraper.scrapePHIVOLCS()).length, 5);
+  assert.equal((await scraper.scrapePHIVOLCS(2024, 1)).length, 3);
+  assert.deepEqual(phivolcs.requests.slice(-2), ['/', '/EQLatest-Monthly/2024/2024_January.html']);
+});
+
+test('reports missing monthly archives', async () => {
+  await assert.rejects(scraper.scrapePHIVOLCS(2030, 1, { fallbackToLatest: false }), /Page not found \(404\)/);
+  // Or falls back to the latest page, which has nothing from that month
+  assert.deepEqual(await scraper.scrapePHIVOLCS(2030, 1), []);
+  assert.deepEqual(phivolcs.requests.slice(-2), ['/EQLatest-Monthly/2030/2030_January.html', '/']);
+});
+
+test('switches scenarios at runtime', async () => {
+  assert.equal((await setScenario('unknown')).status, 400);
+
+  assert.equal((await setScenario('malformed')).status, 200);
+  assert.equal((await scraper.scrapePHIVOLCS()).length, 1);
+
+  await setScenario('redesigned');
+  await assert.rejects(scraper.scrapePHIVOLCS(), sourceFormat.SourceFormatChangedError);
+  // Only requests answered from the changed page are flagged
+  const request = (query: Record<string, string>) => api.parseEarthquakesRequest({ query, accepts: () => false });
+  assert.deepEqual(api.sourceFormatHeaders(request({})), { 'X-Source-Format': 'changed' });
+  assert.deepEqual(api.sourceFormatHeaders(request({ year: '2024', month: '1' })), {});
+
+  await setScenario('not-found');
+  await assert.rejects(scraper.scrapePHIVOLCS(), /Page not found \(404\)/);
+
+  await setScenario('normal');
+  assert.equal((await scraper.scrapePHIVOLCS()).length, 5);
+  assert.equal(sourceFormat.getSourceFormatMonitor().changed, false);
+});
+
+test('a slow source can be cancelled', async () => {
+  phivolcs.scenario = 'slow';
+  const controller = new AbortController();
+  const reason = new Error('Client went away');
+  setTimeout(() => controller.abort(reason), 50);
+  try {
+    await assert.rejects(scraper.scrapePHIVOLCS(undefined, undefined, { signal: controller.signal }), reason);
+  } finally {
+    phivolcs.scenario = 'normal';
+  }
+});
+
+test('paces archive requests across concurrent ranges', async () => {
+  const startTime = Date.now();
+  const [recent, older] = await Promise.all([
+    ingest.ingestRange(Date.UTC(2023, 11, 31, 16), Date.UTC(2024, 1, 29, 16)),
+    ingest.ingestRange(Date.UTC(2018, 1, 28, 16), Date.UTC(2018, 3, 30, 16)),
+  ]);
+
+  assert.deepEqual(recent.map(({ month, status }) => [month, status]), [[1, 'ingested'], [2, 'missing']]);
+  assert.deepEqual(older.map(({ month, status }) => [month, status]), [[3, 'ingested'], [4, 'missing']]);
+  // Four archive pages, one at a time, 200 ms apart
+  assert.ok(Date.now() - startTime >= 600);
+  assert.deepEqual(await ingest.ingestRange(Date.now() + 60 * 1000, Date.now() + 120 * 1000), []);
+});
+
+test('monthly archive URLs follow the configured template', () => {
+  assert.equal(source.monthlyArchiveUrl(2024, 1), `${baseUrl}EQLatest-Monthly/2024/2024_January.html`);
+  assert.equal(source.archiveYear(`${baseUrl}EQLatest-Monthly/2018/2018_March.html`), 2018);
+  assert.equal(source.archiveYear(baseUrl), null);
+
+  const template = 'archive/{year}-{mm}.html';
+  const base = 'https://mirror.example/phivolcs/';
+  assert.equal(source.monthlyArchiveUrl(2024, 3, template, base), 'https://mirror.example/phivolcs/archive/2024-03.html');
+  assert.equal(source.archiveYear('https://mirror.example/phivolcs/archive/2024-03.html', template, base), 2024);
+  assert.equal(source.archiveYear(`${baseUrl}EQLatest-Monthly/2018/2018_March.html`, template, base), null);
+});
+
+test('unknown event ids share one refresh of the latest page', async () => {
+  let refreshes = 0;
+  const options = {
+    latestIsFresh: false,
+    ingestLatest: (signal?: AbortSignal) => {
+      refreshes++;
+      return ingest.ingestCached(undefined, undefined, { signal });
+    },
+  };
+  const lookups = await Promise.all(['bogus-1', 'bogus-2'].map(id => api.loadEarthquakeDetail(id, options)));
+  assert.deepEqual(lookups, [null, null]);
+  assert.equal(await api.loadEarthquakeDetail('bogus-3', options), null);
+  assert.equal(refreshes, 1);
+});
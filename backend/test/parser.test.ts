@@ -0,0 +1,108 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { parsePHIVOLCSHtml } from '../src/parser.js';
+
+const fixture = (name: string) =>
+  readFileSync(fileURLToPath(new URL(`./fixtures/${name}`, import.meta.url)), 'utf8');
+
+test('parses the latest earthquakes page', () => {
+  const result = parsePHIVOLCSHtml(fixture('latest.html'));
+
+  assert.equal(result.method, 'table');
+  assert.equal(result.tableCount, 2);
+  assert.equal(result.earthquakes.length, 5);
+
+  const [first] = result.earthquakes;
+  assert.equal(first.magnitude, 4.1);
+  assert.equal(first.latitude, 6.34);
+  assert.equal(first.longitude, 126.35);
+  assert.equal(first.depth, 48);
+  assert.equal(first.place, '046 km S 42° E of Governor Generoso (Davao Oriental)');
+  assert.equal(first.location?.municipality, 'Governor Generoso');
+  assert.equal(first.location?.province, 'Davao Oriental');
+  assert.equal(new Date(first.time).toISOString(), '2025-11-16T06:35:00.000Z');
+  assert.match(first.id, /^phivolcs-[0-9a-f]{16}$/);
+});
+
+test('produces the same ids for the same page', () => {
+  const ids = parsePHIVOLCSHtml(fixture('latest.html')).earthquakes.map((eq) => eq.id);
+  const again = parsePHIVOLCSHtml(fixture('latest.html')).earthquakes.map((eq) => eq.id);
+
+  assert.deepEqual(again, ids);
+  assert.equal(new Set(ids).size, ids.length);
+});
+
+test('parses a monthly archive page on PHT calendar boundaries', () => {
+  const result = parsePHIVOLCSHtml(fixture('monthly-2024-01.html'));
+
+  assert.equal(result.earthquakes.length, 3);
+  // 12:05 AM PHT on 1 January is still 31 December in UTC
+  const newYear = result.earthquakes[2];
+  assert.equal(new Date(newYear.time).toISOString(), '2023-12-31T16:05:00.000Z');
+  assert.deepEqual(
+    result.diagnostics.filter((d) => d.status === 'rejected').map((d) => d.reason),
+    ['header'],
+  );
+});
+
+test('parses an older archive with separate date and time columns', () => {
+  const result = parsePHIVOLCSHtml(fixture('monthly-2018-03.html'));
+
+  assert.equal(result.earthquakes.length, 2);
+  assert.equal(new Date(result.earthquakes[0].time).toISOString(), '2018-03-28T13:17:00.000Z');
+  assert.equal(result.earthquakes[0].magnitude, 3.4);
+
+  // Latitude and longitude columns swapped in the source row
+  const swapped = result.earthquakes[1];
+  assert.equal(swapped.latitude, 7.11);
+  assert.equal(swapped.longitude, 126.55);
+  assert.equal(swapped.depth, 40);
+  assert.equal(swapped.magnitude, 4);
+});
+
+test('returns no earthquakes for a 404 page', () => {
+  const result = parsePHIVOLCSHtml(fixture('not-found.html'));
+
+  assert.equal(result.method, 'none');
+  assert.equal(result.tableCount, 0);
+  assert.deepEqual(result.earthquakes, []);
+  assert.deepEqual(result.diagnostics, []);
+});
+
+test('reports why malformed rows were rejected', () => {
+  const result = parsePHIVOLCSHtml(fixture('malformed-rows.html'));
+
+  assert.equal(result.earthquakes.length, 1);
+  assert.deepEqual(
+    result.diagnostics.map((d) => [d.rowIndex, d.status, d.reason]),
+    [
+      [0, 'rejected', 'header'],
+      [1, 'parsed', undefined],
+      [2, 'rejected', 'duplicate'],
+      [3, 'rejected', 'too-few-cells'],
+      [4, 'rejected', 'too-few-cells'],
+      [5, 'rejected', 'invalid-magnitude'],
+      [6, 'rejected', 'unparseable-date'],
+      [7, 'rejected', 'invalid-coordinates'],
+    ],
+  );
+});
+
+test('gives records without a parseable time the same id on every scrape', () => {
+  const html = '<div class="earthquake-item">Magnitude: 4.2 Latitude: 9.81 Longitude: 125.44 Depth: 10</div>';
+  const now = mock.method(Date, 'now', () => Date.UTC(2025, 10, 16, 6, 0));
+  try {
+    const first = parsePHIVOLCSHtml(html).earthquakes;
+    now.mock.mockImplementation(() => Date.UTC(2025, 10, 16, 6, 30));
+    const second = parsePHIVOLCSHtml(html).earthquakes;
+
+    assert.equal(first.length, 1);
+    assert.equal(first[0].quality?.timeUnparsed, true);
+    assert.notEqual(first[0].time, second[0].time);
+    assert.equal(first[0].id, second[0].id);
+  } finally {
+    now.mock.restore();
+  }
+});
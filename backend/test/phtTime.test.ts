@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parsePHTDateTime, parseRangeBoundary, phtMonthsBetween } from '../src/phtTime.js';
+
+test('parses the date/time formats PHIVOLCS publishes as PHT', () => {
+  const expected = Date.UTC(2025, 10, 16, 6, 35);
+  assert.equal(parsePHTDateTime('16 November 2025 - 02:35 PM'), expected);
+  assert.equal(parsePHTDateTime('16 Nov 2025', '02:35 PM'), expected);
+  assert.equal(parsePHTDateTime('November 16, 2025', '2:35 p.m.'), expected);
+  assert.equal(parsePHTDateTime('2025-11-16 14:35'), expected);
+  assert.equal(parsePHTDateTime('11/16/2025 02:35 PM'), expected);
+  assert.equal(parsePHTDateTime('2025-11-16T14:35:10'), expected + 10 * 1000);
+  // A date alone is midnight PHT
+  assert.equal(parsePHTDateTime('16 November 2025'), Date.UTC(2025, 10, 15, 16));
+});
+
+test('reads 12 AM as midnight and 12 PM as noon', () => {
+  assert.equal(parsePHTDateTime('16 November 2025 - 12:05 AM'), Date.UTC(2025, 10, 15, 16, 5));
+  assert.equal(parsePHTDateTime('16 November 2025 - 12:05 PM'), Date.UTC(2025, 10, 16, 4, 5));
+});
+
+test('crosses UTC day, month and year boundaries at the UTC+8 offset', () => {
+  // Early morning PHT is still the previous UTC day, month or year
+  assert.equal(parsePHTDateTime('1 December 2025 - 07:59 AM'), Date.UTC(2025, 10, 30, 23, 59));
+  assert.equal(parsePHTDateTime('1 January 2026 - 12:30 AM'), Date.UTC(2025, 11, 31, 16, 30));
+  assert.equal(parsePHTDateTime('1 March 2024 - 08:00 AM'), Date.UTC(2024, 2, 1, 0, 0));
+});
+
+test('rejects malformed dates and times instead of guessing', () => {
+  assert.equal(parsePHTDateTime(''), null);
+  assert.equal(parsePHTDateTime('yesterday'), null);
+  assert.equal(parsePHTDateTime('31 February 2025 - 02:35 PM'), null);
+  assert.equal(parsePHTDateTime('16 Smarch 2025 - 02:35 PM'), null);
+  assert.equal(parsePHTDateTime('2025-13-01 10:00'), null);
+  assert.equal(parsePHTDateTime('16 November 2025 - 13:35 PM'), null);
+  assert.equal(parsePHTDateTime('16 November 2025 - 00:35 AM'), null);
+  assert.equal(parsePHTDateTime('16 November 2025 - 24:00'), null);
+  assert.equal(parsePHTDateTime('16 November 2025 - 10:60'), null);
+  assert.equal(parsePHTDateTime('16 November 2025', 'noon'), null);
+});
+
+test('treats YYYY-MM-DD range boundaries as whole PHT days', () => {
+  // 00:00 PHT on 1 November is 16:00 UTC the day before
+  assert.equal(parseRangeBoundary('2025-11-01', 'start'), Date.UTC(2025, 9, 31, 16));
+  // An end date includes the entire day
+  assert.equal(parseRangeBoundary('2025-11-30', 'end'), Date.UTC(2025, 10, 30, 16));
+  assert.equal(parseRangeBoundary('2025-11-16T06:35:00Z', 'end'), Date.UTC(2025, 10, 16, 6, 35));
+});
+
+test('rejects impossible and unparseable range boundaries', () => {
+  assert.equal(parseRangeBoundary('2025-02-31', 'start'), null);
+  assert.equal(parseRangeBoundary('last week', 'start'), null);
+});
+
+test('lists every PHT month a range touches', () => {
+  const start = parseRangeBoundary('2024-12-15', 'start')!;
+  const end = parseRangeBoundary('2025-02-01', 'end')!;
+
+  assert.deepEqual(phtMonthsBetween(start, end), [
+    { year: 2024, month: 12 },
+    { year: 2025, month: 1 },
+    { year: 2025, month: 2 },
+  ]);
+});
@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { matchesFilters, parseFilters } from '../src/filters.js';
+import { parsePHIVOLCSHtml } from '../src/parser.js';
+import { inferQuality, isLowQuality, PHILIPPINES_CENTER } from '../src/quality.js';
+
+const fixture = (name: string) =>
+  readFileSync(fileURLToPath(new URL(`./fixtures/${name}`, import.meta.url)), 'utf8');
+
+test('table rows read cleanly carry no flags', () => {
+  const { earthquakes } = parsePHIVOLCSHtml(fixture('latest.html'));
+
+  assert.deepEqual(earthquakes[0].quality, {
+    sourceMethod: 'table',
+    coordinatesImputed: false,
+    timeUnparsed: false,
+    placeImputed: false,
+    outOfRegion: false,
+  });
+  assert.ok(earthquakes.every((eq) => !isLowQuality(eq.quality)));
+});
+
+test('flags table rows placed at the Philippines center', () => {
+  const html = '<table><tr><td>16 November 2025 - 02:35 PM</td><td>0</td><td>0</td><td>010</td><td>3.2</td><td>Unknown</td></tr></table>';
+  const [quake] = parsePHIVOLCSHtml(html).earthquakes;
+
+  assert.equal(quake.latitude, PHILIPPINES_CENTER.latitude);
+  assert.equal(quake.longitude, PHILIPPINES_CENTER.longitude);
+  assert.equal(quake.quality?.coordinatesImputed, true);
+  assert.equal(quake.quality?.placeImputed, true);
+  assert.equal(quake.quality?.outOfRegion, false);
+});
+
+test('flags the guesses made by the div fallback', () => {
+  const html = '<div class="earthquake-item">Magnitude: 4.2 Latitude: 35.1 Longitude: 139.2 Depth: 10</div>';
+  const result = parsePHIVOLCSHtml(html);
+
+  assert.equal(result.method, 'div');
+  assert.deepEqual(result.earthquakes[0].quality, {
+    sourceMethod: 'div',
+    coordinatesImputed: false,
+    timeUnparsed: true,
+    placeImputed: true,
+    outOfRegion: true,
+  });
+});
+
+test('script records keep their own time and place when they have one', () => {
+  const html = '<script>var quakes = [{"magnitude": 3.1, "lat": 9.5, "lon": 126.1, "place": "Offshore Surigao", "time": "2025-11-16T06:35:00Z"}, {"magnitude": 2.8}];</script>';
+  const [dated, bare] = parsePHIVOLCSHtml(html).earthquakes;
+
+  assert.equal(isLowQuality(dated.quality), false);
+  assert.equal(dated.quality?.sourceMethod, 'script');
+  assert.equal(bare.quality?.coordinatesImputed, true);
+  assert.equal(bare.quality?.timeUnparsed, true);
+  assert.equal(bare.latitude, PHILIPPINES_CENTER.latitude);
+});
+
+test('infers flags for entries stored before they existed', () => {
+  const base = { id: 'a', magnitude: 3, depth: 10, time: 0, place: '010 km N of Davao City (Davao Del Sur)' };
+
+  assert.equal(inferQuality({ ...base, ...PHILIPPINES_CENTER }).coordinatesImputed, true);
+  assert.equal(isLowQuality(inferQuality({ ...base, latitude: 7.2, longitude: 125.6 })), false);
+});
+
+test('quality=strict drops flagged events', () => {
+  const clean = parsePHIVOLCSHtml(fixture('latest.html')).earthquakes[0];
+  const flagged = parsePHIVOLCSHtml('<div class="quake">Magnitude: 4.2</div>').earthquakes[0];
+  const strict = parseFilters({ quality: 'strict' });
+
+  assert.equal(matchesFilters(clean, strict), true);
+  assert.equal(matchesFilters(flagged, strict), false);
+  assert.equal(matchesFilters(flagged, parseFilters({ quality: 'all' })), true);
+  assert.throws(() => parseFilters({ quality: 'high' }), /quality must be one of: all, strict/);
+});
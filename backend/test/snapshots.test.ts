@@ -0,0 +1,104 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { parsePHIVOLCSHtml } from '../src/parser.js';
+import { diffEvents, runReparse } from '../src/reparse.js';
+import { hashHtml, SnapshotArchive } from '../src/snapshots.js';
+import type { FetchedPage } from '../src/types.js';
+
+mock.method(console, 'log', () => {});
+
+const fixture = (name: string) =>
+  readFileSync(fileURLToPath(new URL(`./fixtures/${name}`, import.meta.url)), 'utf8');
+
+const LATEST_URL = 'https://earthquake.phivolcs.dost.gov.ph/';
+const MONTHLY_URL = `${LATEST_URL}EQLatest-Monthly/2024/2024_January.html`;
+
+const tempArchive = () => new SnapshotArchive(mkdtempSync(path.join(tmpdir(), 'snapshots-')));
+
+const page = (html: string, url = LATEST_URL): FetchedPage => ({ url, status: 200, html, via: 'http' });
+
+test('stores each page once and every fetch in the index', async () => {
+  const archive = tempArchive();
+  const html = fixture('latest.html');
+
+  await archive.save(page(html), parsePHIVOLCSHtml(html, LATEST_URL), 1000);
+  await archive.save(page(html), parsePHIVOLCSHtml(html, LATEST_URL), 2000);
+  const monthly = fixture('monthly-2024-01.html');
+  await archive.save(page(monthly, MONTHLY_URL), parsePHIVOLCSHtml(monthly, MONTHLY_URL), 3000);
+
+  const all = await archive.list();
+  assert.deepEqual(all.map((record) => record.fetchedAt), [1000, 2000, 3000]);
+  assert.equal(all[0].hash, hashHtml(html));
+  assert.equal(all[0].hash, all[1].hash);
+  assert.deepEqual((await archive.list({ url: 'EQLatest-Monthly' })).map((record) => record.fetchedAt), [3000]);
+  assert.deepEqual((await archive.list({ since: 1500, until: 3000 })).map((record) => record.fetchedAt), [2000]);
+
+  assert.equal(await archive.read(all[0].hash), html);
+  assert.equal((await archive.readResult(all[0].hash))?.earthquakes.length, 5);
+  await assert.rejects(archive.read('../../etc/passwd'), /Invalid snapshot hash/);
+});
+
+test('prunes old fetches and the pages only they refer to', async () => {
+  const archive = new SnapshotArchive(mkdtempSync(path.join(tmpdir(), 'snapshots-')), { maxAgeMs: 0 });
+  const latest = fixture('latest.html');
+  const monthly = fixture('monthly-2024-01.html');
+
+  await archive.save(page(monthly, MONTHLY_URL), parsePHIVOLCSHtml(monthly, MONTHLY_URL), 1000);
+  await archive.save(page(latest), parsePHIVOLCSHtml(latest, LATEST_URL), 1500);
+  await archive.save(page(latest), parsePHIVOLCSHtml(latest, LATEST_URL), 3000);
+
+  assert.deepEqual(await archive.prune(2000), { fetches: 2, pages: 1 });
+  assert.deepEqual((await archive.list()).map((record) => record.fetchedAt), [3000]);
+  assert.equal(await archive.read(hashHtml(latest)), latest);
+  await assert.rejects(archive.read(hashHtml(monthly)), /ENOENT/);
+  assert.equal(await archive.readResult(hashHtml(monthly)), null);
+});
+
+test('saving prunes fetches older than the maximum age', async () => {
+  const archive = new SnapshotArchive(mkdtempSync(path.join(tmpdir(), 'snapshots-')), { maxAgeMs: 24 * 60 * 60 * 1000 });
+  const html = fixture('latest.html');
+  const day = 24 * 60 * 60 * 1000;
+
+  await archive.save(page(html), parsePHIVOLCSHtml(html, LATEST_URL), 10 * day);
+  await archive.save(page(html), parsePHIVOLCSHtml(html, LATEST_URL), 12 * day);
+
+  assert.deepEqual((await archive.list()).map((record) => record.fetchedAt), [12 * day]);
+});
+
+test('pairs re-parsed events with the old ones and lists changed fields', () => {
+  const before = parsePHIVOLCSHtml(fixture('latest.html'), LATEST_URL).earthquakes;
+  const after = before.slice(1).map((eq, i) => (i === 0 ? { ...eq, id: 'new-id', depth: eq.depth + 1 } : eq));
+  const extra = { ...before[0], id: 'extra', time: before[0].time + 24 * 60 * 60 * 1000, url: undefined };
+
+  const diff = diffEvents(before, [...after, extra]);
+
+  assert.deepEqual(diff.removed.map((eq) => eq.id), [before[0].id]);
+  assert.deepEqual(diff.added.map((eq) => eq.id), ['extra']);
+  assert.equal(diff.changed.length, 1);
+  assert.equal(diff.changed[0].id, before[1].id);
+  assert.deepEqual(diff.changed[0].fields, ['depth']);
+});
+
+test('reparse reports snapshots whose events changed and can store the new baseline', async () => {
+  const archive = tempArchive();
+  const html = fixture('latest.html');
+  const parsed = parsePHIVOLCSHtml(html, LATEST_URL);
+  // As if an older parser had read one magnitude wrong
+  const record = await archive.save(page(html), {
+    ...parsed,
+    earthquakes: parsed.earthquakes.map((eq, i) => (i === 2 ? { ...eq, magnitude: 35 } : eq)),
+  });
+
+  const [report] = await runReparse({ dir: archive.dir, write: true, apply: false });
+  assert.equal(report.hash, record.hash);
+  assert.deepEqual(report.diff.changed.map(({ fields }) => fields), [['magnitude']]);
+  assert.equal(report.diff.changed[0].after.magnitude, 3.5);
+
+  // Stored as the baseline: nothing left to report
+  const [again] = await runReparse({ dir: archive.dir, write: false, apply: false });
+  assert.deepEqual(again.diff, { added: [], removed: [], changed: [] });
+});
@@ -0,0 +1,84 @@
+import { test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { parsePHIVOLCSHtml } from '../src/parser.js';
+import { compareFingerprints, fingerprintMarkup, pageKind, SourceFormatMonitor } from '../src/sourceFormat.js';
+
+mock.method(console, 'log', () => {});
+mock.method(console, 'error', () => {});
+
+const fixture = (name: string) =>
+  readFileSync(fileURLToPath(new URL(`./fixtures/${name}`, import.meta.url)), 'utf8');
+
+const LATEST_URL = 'https://earthquake.phivolcs.dost.gov.ph/';
+const REDESIGNED = '<html><body><main><ul class="events"><li>16 Nov 2025 14:35 · M4.1 · Davao Oriental</li></ul></main></body></html>';
+
+const tempPath = () => path.join(mkdtempSync(path.join(tmpdir(), 'fingerprint-')), 'fingerprints.json');
+
+test('fingerprints the earthquake table', () => {
+  const fingerprint = fingerprintMarkup(parsePHIVOLCSHtml(fixture('latest.html')));
+
+  assert.deepEqual(fingerprint, {
+    method: 'table',
+    columnCount: 6,
+    headers: ['date time philippine time', 'latitude n', 'longitude e', 'depth km', 'mag', 'location'],
+    rowShapes: ['dnnnns'],
+  });
+  // Same layout, different page and markup details
+  assert.deepEqual(compareFingerprints(fingerprint, fingerprintMarkup(parsePHIVOLCSHtml(fixture('monthly-2024-01.html')))), []);
+});
+
+test('describes what changed', () => {
+  const latest = fingerprintMarkup(parsePHIVOLCSHtml(fixture('latest.html')));
+  const older = fingerprintMarkup(parsePHIVOLCSHtml(fixture('monthly-2018-03.html')));
+  const redesigned = fingerprintMarkup(parsePHIVOLCSHtml(REDESIGNED));
+
+  const columns = compareFingerprints(latest, older);
+  assert.equal(columns.length, 2);
+  assert.match(columns[0], /7 columns instead of 6/);
+  assert.match(columns[1], /column headers changed/);
+
+  assert.deepEqual(compareFingerprints(latest, redesigned), [
+    'parsed by the "none" heuristic instead of "table"',
+    'no earthquake table rows found',
+    'column headers are missing',
+  ]);
+});
+
+test('compares archive pages with archives of the same year', () => {
+  assert.equal(pageKind(LATEST_URL), 'latest');
+  assert.equal(pageKind(`${LATEST_URL}EQLatest-Monthly/2018/2018_March.html`), 'monthly-2018');
+});
+
+test('flags a redesign until the known-good format is back', async () => {
+  const monitor = new SourceFormatMonitor({ filePath: tempPath() });
+
+  assert.equal(await monitor.check(LATEST_URL, parsePHIVOLCSHtml(fixture('latest.html')), 1000), null);
+  assert.equal(monitor.status().status, 'ok');
+
+  const change = await monitor.check(LATEST_URL, parsePHIVOLCSHtml(REDESIGNED), 2000);
+  assert.equal(change?.page, 'latest');
+  assert.equal(change?.detectedAt, 2000);
+  assert.equal(monitor.changed, true);
+  // Still the same change on the next scrape
+  assert.equal((await monitor.check(LATEST_URL, parsePHIVOLCSHtml(REDESIGNED), 3000))?.detectedAt, 2000);
+
+  await monitor.check(LATEST_URL, parsePHIVOLCSHtml(fixture('latest.html')), 4000);
+  assert.deepEqual(monitor.status(), { status: 'ok', changes: [] });
+});
+
+test('remembers the known-good format across restarts and accepts a stable new one', async () => {
+  const filePath = tempPath();
+  await new SourceFormatMonitor({ filePath }).check(LATEST_URL, parsePHIVOLCSHtml(fixture('latest.html')));
+
+  const restarted = new SourceFormatMonitor({ filePath, acceptAfter: 2 });
+  const sevenColumns = parsePHIVOLCSHtml(fixture('monthly-2018-03.html'));
+  assert.notEqual(await restarted.check(LATEST_URL, sevenColumns), null);
+  // Parses cleanly twice in a row: that's the new format now
+  assert.equal(await restarted.check(LATEST_URL, sevenColumns), null);
+  assert.equal(restarted.changed, false);
+  assert.equal(await restarted.check(LATEST_URL, sevenColumns), null);
+});
@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import type { Response } from 'express';
+import type { CatalogEntry } from '../src/catalog.js';
+import { EarthquakeStream } from '../src/stream.js';
+
+const entry = (id: string, time = Date.now() - 60 * 1000): CatalogEntry => ({
+  id,
+  magnitude: 4.1,
+  place: 'Davao Oriental',
+  time,
+  latitude: 6.34,
+  longitude: 126.35,
+  depth: 48,
+  firstSeen: 1000,
+  lastSeen: 1000,
+  lastUpdated: 1000,
+  aliases: [id],
+  revisions: [],
+});
+
+// Just enough of an Express response to capture what the stream writes
+function fakeResponse() {
+  const res = Object.assign(new EventEmitter(), {
+    body: '',
+    status: () => res,
+    setHeader: () => res,
+    flushHeaders: () => {},
+    write: (chunk: string) => { res.body += chunk; return true; },
+    end: () => {},
+  });
+  return res;
+}
+
+const eventIds = (body: string) => [...body.matchAll(/^id: (\d+)$/gm)].map(match => Number(match[1]));
+
+test('pushes created and updated quakes to connected clients', () => {
+  const stream = new EarthquakeStream();
+  const res = fakeResponse();
+  stream.connect(res as unknown as Response);
+
+  stream.publish({ created: [entry('a')], updated: [entry('b')] });
+  res.emit('close');
+
+  assert.match(res.body, /event: quake\.created\ndata: \{"id":"a"/);
+  assert.match(res.body, /event: quake\.updated\ndata: \{"id":"b"/);
+  assert.equal(stream.clientCount, 0);
+});
+
+test('replays events after Last-Event-ID', () => {
+  const stream = new EarthquakeStream();
+  const live = fakeResponse();
+  stream.connect(live as unknown as Response);
+  stream.publish({ created: [entry('a'), entry('b')], updated: [] });
+  stream.publish({ created: [entry('c')], updated: [] });
+  const [, second] = eventIds(live.body);
+  live.emit('close');
+
+  const resumed = fakeResponse();
+  stream.connect(resumed as unknown as Response, String(second));
+  resumed.emit('close');
+
+  assert.doesNotMatch(resumed.body, /"id":"[ab]"/);
+  assert.match(resumed.body, /"id":"c"/);
+});
+
+test('asks clients to resync when missed events are gone', () => {
+  const stream = new EarthquakeStream({ bufferSize: 2 });
+  stream.publish({ created: [entry('a'), entry('b'), entry('c')], updated: [] });
+
+  const res = fakeResponse();
+  stream.connect(res as unknown as Response, '1');
+  res.emit('close');
+
+  assert.match(res.body, /event: resync/);
+  assert.doesNotMatch(res.body, /quake\.created/);
+});
+
+test('leaves out old quakes from archive ingests', () => {
+  const stream = new EarthquakeStream({ maxEventAgeMs: 24 * 60 * 60 * 1000 });
+  const res = fakeResponse();
+  stream.connect(res as unknown as Response);
+
+  stream.publish({ created: [entry('old', Date.UTC(2019, 2, 1)), entry('new')], updated: [entry('revised-old', Date.UTC(2019, 2, 2))] });
+  res.emit('close');
+
+  assert.doesNotMatch(res.body, /"id":"old"|"id":"revised-old"/);
+  assert.match(res.body, /event: quake\.created\ndata: \{"id":"new"/);
+});
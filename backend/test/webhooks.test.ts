@@ -0,0 +1,135 @@
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { CatalogEntry } from '../src/catalog.js';
+import { parseSubscription, signPayload, WebhookDispatcher } from '../src/webhooks.js';
+
+const entry = (overrides: Partial<CatalogEntry> = {}): CatalogEntry => ({
+  id: 'phivolcs-289b666c79dcee6b',
+  magnitude: 5.2,
+  place: '046 km S 42° E of Governor Generoso (Davao Oriental)',
+  time: Date.now() - 60 * 1000,
+  latitude: 6.34,
+  longitude: 126.35,
+  depth: 48,
+  firstSeen: Date.now(),
+  lastSeen: Date.now(),
+  lastUpdated: Date.now(),
+  aliases: ['phivolcs-289b666c79dcee6b'],
+  revisions: [],
+  ...overrides,
+});
+
+// Receiver that fails the first `failures` requests with a 500
+const received: Array<{ headers: http.IncomingHttpHeaders; body: string }> = [];
+let failures = 0;
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => (body += chunk));
+  req.on('end', () => {
+    received.push({ headers: req.headers, body });
+    res.statusCode = failures-- > 0 ? 500 : 200;
+    res.end();
+  });
+});
+await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+after(() => server.close());
+
+const tempDir = () => mkdtempSync(path.join(tmpdir(), 'webhooks-'));
+const dispatcher = (dir = tempDir()) => new WebhookDispatcher({
+  subscriptionsPath: path.join(dir, 'webhooks.json'),
+  deliveryLogPath: path.join(dir, 'deliveries.jsonl'),
+  retryBaseMs: 5,
+  maxAttempts: 3,
+  // The test receiver listens on loopback
+  allowPrivateHosts: true,
+});
+const local = { allowPrivateHosts: true };
+
+test('delivers signed payloads to matching subscriptions only', async () => {
+  received.length = 0;
+  const webhooks = dispatcher();
+  const { secret } = await webhooks.add(parseSubscription({ url, rules: { minMagnitude: 5 } }, local));
+  await webhooks.add(parseSubscription({ url, rules: { minMagnitude: 3.5, lat: 14.6, lon: 121, radiusKm: 50 } }, local));
+
+  const deliveries = await webhooks.handle({ created: [entry()], updated: [] });
+
+  assert.equal(deliveries.length, 1);
+  assert.equal(deliveries[0].status, 'delivered');
+  const [{ headers, body }] = received;
+  assert.equal(JSON.parse(body).data.id, 'phivolcs-289b666c79dcee6b');
+  assert.equal(headers['x-webhook-signature'], signPayload(secret, Number(headers['x-webhook-timestamp']), body));
+});
+
+test('retries failed deliveries and records them in the log', async () => {
+  received.length = 0;
+  failures = 2;
+  const dir = tempDir();
+  const webhooks = dispatcher(dir);
+  const subscription = await webhooks.add(parseSubscription({ url, events: ['quake.updated'] }, local));
+
+  const [delivery] = await webhooks.handle({ created: [], updated: [entry()] });
+
+  assert.equal(delivery.status, 'delivered');
+  assert.equal(delivery.attempts, 3);
+  assert.equal(received.length, 3);
+  assert.equal(webhooks.deliveries(subscription.id)[0].id, delivery.id);
+  const logged = readFileSync(path.join(dir, 'deliveries.jsonl'), 'utf8').trim().split('\n');
+  assert.equal(JSON.parse(logged[0]).attempts, 3);
+});
+
+test('ignores old quakes and rejects invalid subscriptions', async () => {
+  const webhooks = dispatcher();
+  await webhooks.add(parseSubscription({ url }, local));
+
+  assert.deepEqual(await webhooks.handle({ created: [entry({ time: Date.UTC(2018, 0, 1) })], updated: [] }), []);
+  assert.throws(() => parseSubscription({ url: 'ftp://example.com' }, local), /url/);
+  assert.throws(() => parseSubscription({ url, events: ['quake.deleted'] }, local), /events/);
+  assert.throws(() => parseSubscription({ url, rules: { lat: 14 } }, local), /radiusKm/);
+});
+
+test('refuses webhook targets on internal networks', async () => {
+  for (const target of ['http://localhost:8080/', 'http://127.0.0.1/', 'http://10.1.2.3/', 'http://169.254.169.254/latest/meta-data/', 'http://[::1]/', 'http://[fd00::1]/', 'http://metadata.google.internal/']) {
+    assert.throws(() => parseSubscription({ url: target }), /loopback, private or link-local/, target);
+  }
+  assert.equal(parseSubscription({ url: 'https://ops.example.com/hooks' }).url, 'https://ops.example.com/hooks');
+  assert.throws(() => parseSubscription('https://ops.example.com/hooks'), /JSON object/);
+
+  // Checked again at delivery time, for names that resolve to a private address
+  const dir = tempDir();
+  const strict = new WebhookDispatcher({
+    subscriptionsPath: path.join(dir, 'webhooks.json'),
+    deliveryLogPath: path.join(dir, 'deliveries.jsonl'),
+    maxAttempts: 1,
+  });
+  await strict.add(parseSubscription({ url }, local));
+  const [delivery] = await strict.handle({ created: [entry()], updated: [] });
+  assert.equal(delivery.status, 'failed');
+  assert.match(delivery.error, /private host/);
+});
+
+test('does not follow redirects to another host', async () => {
+  received.length = 0;
+  // Sends every delivery on to the loopback receiver
+  const redirector = http.createServer((req, res) => {
+    res.writeHead(302, { Location: url }).end();
+  });
+  await new Promise<void>(resolve => redirector.listen(0, '127.0.0.1', resolve));
+  try {
+    const webhooks = dispatcher();
+    await webhooks.add(parseSubscription({ url: `http://127.0.0.1:${(redirector.address() as AddressInfo).port}/hook` }, local));
+
+    const [delivery] = await webhooks.handle({ created: [entry()], updated: [] });
+    assert.equal(delivery.status, 'failed');
+    assert.equal(delivery.responseStatus, 302);
+    assert.match(delivery.error, /redirects are not followed/);
+    assert.equal(received.length, 0);
+  } finally {
+    redirector.close();
+  }
+});
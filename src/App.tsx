@@ -2,36 +2,87 @@ import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import './App.css';
 import EarthquakeMap from './components/EarthquakeMap';
 import EarthquakeList from './components/EarthquakeList';
-import { Earthquake } from './types/earthquake';
-import { fetchEarthquakes } from './services/earthquakeService';
+import AlertSettingsPanel from './components/AlertSettingsPanel';
+import { DateRange, Earthquake } from './types/earthquake';
+import { fetchEarthquakes, isLowQuality, SourceFormatChangedError, subscribeToEarthquakes } from './services/earthquakeService';
+import { AlertSettings, alertEarthquakes, loadAlertSettings, saveAlertSettings } from './services/alertService';
 
 type SortOption = 'newest' | 'oldest' | 'magnitude-high' | 'magnitude-low';
 type FilterOption = 'all' | 'today' | 'week' | 'month' | 'year';
 
+// Which selection a load is for, to tell a repeat load from one that replaces it
+const requestKey = (year?: number, month?: number, range?: DateRange) =>
+  JSON.stringify([year ?? null, month ?? null, range ?? null]);
+
 function App() {
   const [earthquakes, setEarthquakes] = useState<Earthquake[]>([]);
   const [selectedEarthquake, setSelectedEarthquake] = useState<Earthquake | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [sourceFormatChanged, setSourceFormatChanged] = useState(false); // PHIVOLCS redesigned its pages
   const [sortBy, setSortBy] = useState<SortOption>('newest');
   const [filterBy, setFilterBy] = useState<FilterOption>('all');
   const [autoRefresh, setAutoRefresh] = useState(true);
   const [lastRefresh, setLastRefresh] = useState<Date | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [streamConnected, setStreamConnected] = useState(false);
   const [newEarthquakesCount, setNewEarthquakesCount] = useState(0);
   const [newEarthquakeIds, setNewEarthquakeIds] = useState<Set<string>>(new Set());
   const [selectedYear, setSelectedYear] = useState<number | undefined>(undefined);
   const [selectedMonth, setSelectedMonth] = useState<number | undefined>(undefined);
-  const refreshingRef = useRef(false); // Prevent concurrent refreshes
+  const [customRange, setCustomRange] = useState<DateRange | undefined>(undefined);
+  const [hideLowQuality, setHideLowQuality] = useState(false);
+  const [alertSettings, setAlertSettings] = useState<AlertSettings>(loadAlertSettings);
+  const requestRef = useRef<{ controller: AbortController; key: string } | null>(null); // Load in flight, aborted once stale
+  const alertSettingsRef = useRef(alertSettings); // Latest settings for stream/refresh callbacks
+  const alertedIdsRef = useRef<Set<string>>(new Set()); // Never alert twice for the same quake
+  const pendingAlertsRef = useRef<{ earthquakes: Earthquake[]; timer: number | null }>({ earthquakes: [], timer: null }); // Stream events waiting to be alerted as one burst
 
-  const loadEarthquakes = useCallback(async (silent = false, year?: number, month?: number) => {
-    // Prevent concurrent refreshes
-    if (refreshingRef.current) {
+  useEffect(() => {
+    alertSettingsRef.current = alertSettings;
+    saveAlertSettings(alertSettings);
+  }, [alertSettings]);
+
+  // Desktop notification / sound for newly detected earthquakes that match the alert settings
+  const alertNewEarthquakes = useCallback((newEarthquakes: Earthquake[]) => {
+    const unseen = newEarthquakes.filter(eq => !alertedIdsRef.current.has(eq.id));
+    unseen.forEach(eq => alertedIdsRef.current.add(eq.id));
+    // Clicking a notification selects the quake, which zooms the map to it
+    alertEarthquakes(unseen, alertSettingsRef.current, setSelectedEarthquake);
+  }, []);
+
+  // The stream sends one event per quake; collect those arriving together so a burst
+  // gets one sound and one round of notifications
+  const queueAlert = useCallback((earthquake: Earthquake) => {
+    const pending = pendingAlertsRef.current;
+    pending.earthquakes.push(earthquake);
+    if (pending.timer !== null) return;
+    pending.timer = window.setTimeout(() => {
+      const batch = pending.earthquakes;
+      pending.earthquakes = [];
+      pending.timer = null;
+      alertNewEarthquakes(batch);
+    }, 1000);
+  }, [alertNewEarthquakes]);
+
+  useEffect(() => () => {
+    const { timer } = pendingAlertsRef.current;
+    if (timer !== null) clearTimeout(timer);
+  }, []);
+
+  const loadEarthquakes = useCallback(async (silent = false, year?: number, month?: number, range?: DateRange) => {
+    const key = requestKey(year ?? selectedYear, month ?? selectedMonth, range ?? customRange);
+    const inFlight = requestRef.current;
+    // Auto-refreshes and repeat loads wait for the one in flight...
+    if (inFlight && (silent || inFlight.key === key)) {
       console.log('⏸️ Refresh already in progress, skipping...');
       return;
     }
+    // ...while a load for another selection replaces it
+    inFlight?.controller.abort();
 
-    refreshingRef.current = true;
+    const controller = new AbortController();
+    requestRef.current = { controller, key };
     if (!silent) {
       setLoading(true);
     } else {
@@ -39,41 +90,22 @@ function App() {
     }
     setError(null);
     try {
-      const data = await fetchEarthquakes(year ?? selectedYear, month ?? selectedMonth);
+      const { earthquakes: data, sourceFormatChanged: formatChanged } = await fetchEarthquakes(year ?? selectedYear, month ?? selectedMonth, range ?? customRange, controller.signal);
+      setSourceFormatChanged(formatChanged);
 
-      // Remove duplicates based on id, time, and coordinates
+      // Remove duplicates - ids are derived from the quake's content, so they are stable across scrapes
       const uniqueData = data.filter((eq, index, self) =>
-        index === self.findIndex(e =>
-          e.id === eq.id ||
-          (Math.abs(e.time - eq.time) < 60000 && // Same time (within 1 minute)
-            Math.abs(e.latitude - eq.latitude) < 0.01 && // Same location
-            Math.abs(e.longitude - eq.longitude) < 0.01)
-        )
+        index === self.findIndex(e => e.id === eq.id)
       );
 
       // Check for new earthquakes using functional update
       // Only mark as new if this is a silent refresh (auto-refresh), not when loading new data
       setEarthquakes((prevEarthquakes) => {
-        if (prevEarthquakes.length > 0 && !silent && !year && !month) {
+        if (prevEarthquakes.length > 0 && !silent && !year && !month && !range) {
           // Only check for new earthquakes during auto-refresh, not when loading filtered data
-          // Compare earthquakes by their actual properties (time, location, magnitude)
-          // not just ID, since IDs are regenerated on each scrape
-          const newEarthquakes = uniqueData.filter(newEq => {
-            // Check if this earthquake already exists in previous data
-            const isExisting = prevEarthquakes.some(oldEq => {
-              // Same time (within 1 minute tolerance)
-              const sameTime = Math.abs(oldEq.time - newEq.time) < 60000;
-              // Same location (within 0.01 degree tolerance)
-              const sameLocation = Math.abs(oldEq.latitude - newEq.latitude) < 0.01 &&
-                Math.abs(oldEq.longitude - newEq.longitude) < 0.01;
-              // Same magnitude (within 0.1 tolerance)
-              const sameMagnitude = Math.abs(oldEq.magnitude - newEq.magnitude) < 0.1;
-
-              return sameTime && sameLocation && sameMagnitude;
-            });
-
-            return !isExisting;
-          });
+          // IDs are stable across scrapes, so anything with an unseen ID is new
+          const previousIds = new Set(prevEarthquakes.map(eq => eq.id));
+          const newEarthquakes = uniqueData.filter(newEq => !previousIds.has(newEq.id));
 
           const newCount = newEarthquakes.length;
 
@@ -82,6 +114,7 @@ function App() {
             const newIds = new Set(newEarthquakes.map(eq => eq.id));
             setNewEarthquakeIds(newIds);
             setNewEarthquakesCount(newCount);
+            alertNewEarthquakes(newEarthquakes);
 
             // Remove highlight after 10 seconds
             setTimeout(() => {
@@ -120,15 +153,25 @@ function App() {
       }
       setLastRefresh(new Date());
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to load earthquake data');
+      // Superseded by a newer selection; its results are no longer wanted
+      if (controller.signal.aborted) return;
+      // Not a transient error: the banner explains it instead
+      if (err instanceof SourceFormatChangedError) {
+        setSourceFormatChanged(true);
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to load earthquake data');
+      }
       setEarthquakes([]);
       setSelectedEarthquake(null);
     } finally {
-      setLoading(false);
-      setIsRefreshing(false);
-      refreshingRef.current = false;
+      // A load that replaced this one owns the loading state now
+      if (requestRef.current?.controller === controller) {
+        setLoading(false);
+        setIsRefreshing(false);
+        requestRef.current = null;
+      }
     }
-  }, [selectedYear, selectedMonth]); // Include year/month dependencies
+  }, [selectedYear, selectedMonth, customRange]); // Include year/month/range dependencies
 
   // Initial load on mount only
   useEffect(() => {
@@ -157,9 +200,22 @@ function App() {
     // Clear new earthquake highlights when filters change
     setNewEarthquakeIds(new Set());
     setNewEarthquakesCount(0);
+
+    // Stop loading the previous selection rather than waiting for it after the debounce
+    const inFlight = requestRef.current;
+    if (inFlight && inFlight.key !== requestKey(selectedYear, selectedMonth, customRange)) {
+      inFlight.controller.abort();
+    }
     
     // Debounce the loading to prevent lag when rapidly changing filters
     const timeoutId = setTimeout(() => {
+      if (customRange) {
+        // Wait until both ends of the custom range are picked
+        if (customRange.start && customRange.end && customRange.start <= customRange.end) {
+          loadEarthquakes(false, undefined, undefined, customRange);
+        }
+        return;
+      }
       // Only load if both year and month are selected (for historical data)
       // or if both are cleared (for latest data)
       if ((selectedYear && selectedMonth) || (!selectedYear && !selectedMonth)) {
@@ -169,11 +225,53 @@ function App() {
     
     return () => clearTimeout(timeoutId);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectedYear, selectedMonth]); // Reload when filters change
+  }, [selectedYear, selectedMonth, customRange]); // Reload when filters change
 
-  // Auto-refresh every 5 minutes (only when autoRefresh is enabled)
+  // Live updates over Server-Sent Events while viewing the latest earthquakes.
+  // The backend pushes what its own ingestion finds, so no tab triggers a scrape.
   useEffect(() => {
-    if (!autoRefresh) return;
+    if (!autoRefresh || selectedYear || selectedMonth || customRange) {
+      setStreamConnected(false);
+      return;
+    }
+
+    const unsubscribe = subscribeToEarthquakes({
+      onCreated: (earthquake) => {
+        setEarthquakes((prev) => prev.some(eq => eq.id === earthquake.id) ? prev : [earthquake, ...prev]);
+        setNewEarthquakeIds((prev) => new Set(prev).add(earthquake.id));
+        setNewEarthquakesCount((count) => count + 1);
+        setLastRefresh(new Date());
+        queueAlert(earthquake);
+
+        // Remove highlight after 10 seconds, hide notification after 5 seconds
+        setTimeout(() => {
+          setNewEarthquakeIds((prev) => {
+            const updated = new Set(prev);
+            updated.delete(earthquake.id);
+            return updated;
+          });
+        }, 10000);
+        setTimeout(() => setNewEarthquakesCount(0), 5000);
+      },
+      onUpdated: (earthquake) => {
+        setEarthquakes((prev) => prev.map(eq => eq.id === earthquake.id ? earthquake : eq));
+        setSelectedEarthquake((prev) => prev?.id === earthquake.id ? earthquake : prev);
+        setLastRefresh(new Date());
+      },
+      onResync: () => loadEarthquakes(true),
+      onConnectionChange: setStreamConnected,
+    });
+
+    return () => {
+      unsubscribe();
+      setStreamConnected(false);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [autoRefresh, selectedYear, selectedMonth, customRange]);
+
+  // Poll every minute when live updates are unavailable (only when autoRefresh is enabled)
+  useEffect(() => {
+    if (!autoRefresh || streamConnected) return;
 
     const interval = setInterval(() => {
       loadEarthquakes(true); // Silent refresh
@@ -181,7 +279,7 @@ function App() {
 
     return () => clearInterval(interval);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [autoRefresh]); // Only depend on autoRefresh, loadEarthquakes is stable
+  }, [autoRefresh, streamConnected]); // loadEarthquakes is stable
 
   // This is now handled in the year/month change effect above
 
@@ -190,10 +288,10 @@ function App() {
   };
 
   // Filter earthquakes by time period
-  // Skip filterBy if year/month is selected (backend already filtered)
+  // Skip filterBy if year/month or a custom range is selected (backend already filtered)
   const filteredEarthquakes = useMemo(() => {
-    // If year/month is selected, backend already filtered, so just return all
-    if (selectedYear || selectedMonth) {
+    // If year/month or a range is selected, backend already filtered, so just return all
+    if (selectedYear || selectedMonth || customRange) {
       return earthquakes;
     }
 
@@ -242,11 +340,12 @@ function App() {
           return true;
       }
     });
-  }, [earthquakes, filterBy, selectedYear, selectedMonth]);
+  }, [earthquakes, filterBy, selectedYear, selectedMonth, customRange]);
 
-  // Sort earthquakes based on selected option
+  // Sort earthquakes based on selected option, dropping guessed records if asked to
   const filteredSortedEarthquakes = useMemo(() => {
-    return [...filteredEarthquakes].sort((a, b) => {
+    const shown = hideLowQuality ? filteredEarthquakes.filter((eq) => !isLowQuality(eq)) : filteredEarthquakes;
+    return [...shown].sort((a, b) => {
       switch (sortBy) {
         case 'newest':
           return b.time - a.time;
@@ -260,7 +359,7 @@ function App() {
           return b.time - a.time;
       }
     });
-  }, [filteredEarthquakes, sortBy]);
+  }, [filteredEarthquakes, sortBy, hideLowQuality]);
 
   // Update selected earthquake when filter/sort changes
   useEffect(() => {
@@ -289,6 +388,7 @@ function App() {
           </div>
           <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem', alignItems: 'flex-end'}}>
             <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+              <AlertSettingsPanel settings={alertSettings} onChange={setAlertSettings} />
               <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer', fontSize: '0.9rem' }}>
                 <input
                   type="checkbox"
@@ -297,7 +397,7 @@ function App() {
                   style={{ cursor: 'pointer' }}
                 />
                 <span>
-                <i className="bi bi-arrow-clockwise"></i> Auto-refresh (1 min)</span>
+                <i className="bi bi-arrow-clockwise"></i> {streamConnected ? 'Live updates' : 'Auto-refresh (1 min)'}</span>
               </label>
             </div>
             {lastRefresh && (
@@ -329,6 +429,15 @@ function App() {
           </div>
         </div>
       </header>
+      {sourceFormatChanged && (
+        <div className="source-format-banner" role="alert">
+          <i className="bi bi-exclamation-triangle-fill"></i>
+          <span>
+            PHIVOLCS has changed the layout of its earthquake pages and new data can't be read right now.
+            {earthquakes.length > 0 && ' Showing earthquakes recorded before the change.'}
+          </span>
+        </div>
+      )}
       <div className="main-content">
         <div className="map-container">
           {loading ? (
@@ -349,7 +458,7 @@ function App() {
                 height: '4px' // adjust kung gaano kataas ang container
               }}
             >
-              <p>No earthquake data available</p>
+              <p>{sourceFormatChanged ? 'No earthquake data could be read from PHIVOLCS' : 'No earthquake data available'}</p>
 
               <button
                 onClick={() => loadEarthquakes(false)}
@@ -409,6 +518,10 @@ function App() {
               selectedMonth={selectedMonth}
               onYearChange={setSelectedYear}
               onMonthChange={setSelectedMonth}
+              customRange={customRange}
+              onCustomRangeChange={setCustomRange}
+              hideLowQuality={hideLowQuality}
+              onHideLowQualityChange={setHideLowQuality}
             />
           )}
         </div>
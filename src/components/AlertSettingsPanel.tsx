@@ -0,0 +1,177 @@
+import { useState } from 'react';
+import {
+  AlertSettings,
+  getCurrentLocation,
+  notificationsSupported,
+  playAlertSound,
+  requestNotificationPermission,
+} from '../services/alertService';
+
+interface AlertSettingsPanelProps {
+  settings: AlertSettings;
+  onChange: (settings: AlertSettings) => void;
+}
+
+const inputStyle = {
+  padding: '4px 8px',
+  backgroundColor: '#1e293b',
+  color: '#cbd5e1',
+  border: '1px solid #475569',
+  borderRadius: '4px',
+  fontSize: '0.8rem',
+  width: '5rem',
+};
+
+const rowStyle = { display: 'flex', alignItems: 'center', gap: '0.5rem', cursor: 'pointer' };
+
+const AlertSettingsPanel = ({ settings, onChange }: AlertSettingsPanelProps) => {
+  const [open, setOpen] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const update = (changes: Partial<AlertSettings>) => onChange({ ...settings, ...changes });
+
+  // Browsers only allow the permission prompt from a user gesture, so ask when alerts are switched on
+  const enableNotifications = async (changes: Partial<AlertSettings>) => {
+    const permission = await requestNotificationPermission();
+    if (permission === 'denied') {
+      setStatus('Notifications are blocked for this site in your browser settings.');
+    } else if (permission === 'unsupported') {
+      setStatus('This browser does not support desktop notifications.');
+    } else {
+      setStatus(null);
+    }
+    update(changes);
+  };
+
+  const toggleNearMe = async (nearMe: boolean) => {
+    if (!nearMe) {
+      update({ nearMe });
+      return;
+    }
+    setStatus('Getting your location...');
+    try {
+      const location = await getCurrentLocation();
+      setStatus(null);
+      update({ nearMe, location });
+    } catch (error) {
+      setStatus(error instanceof Error ? error.message : 'Could not get your location');
+    }
+  };
+
+  return (
+    <div style={{ position: 'relative' }}>
+      <button
+        onClick={() => setOpen(!open)}
+        title="Alert settings"
+        style={{
+          background: settings.enabled ? '#667eea' : 'rgba(255, 255, 255, 0.08)',
+          color: 'white',
+          border: '1px solid rgba(255, 255, 255, 0.2)',
+          borderRadius: '6px',
+          padding: '0.35rem 0.75rem',
+          cursor: 'pointer',
+          fontSize: '0.85rem'
+        }}
+      >
+        <i className={`bi ${settings.enabled ? 'bi-bell-fill' : 'bi-bell'}`}></i> Alerts {settings.enabled ? `≥ M${settings.minMagnitude}` : 'off'}
+      </button>
+      {open && (
+        <div style={{
+          position: 'absolute',
+          right: 0,
+          top: 'calc(100% + 0.5rem)',
+          width: '280px',
+          padding: '1rem',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '0.75rem',
+          background: '#0f172a',
+          border: '1px solid rgba(255, 255, 255, 0.15)',
+          borderRadius: '8px',
+          boxShadow: '0 12px 32px rgba(0, 0, 0, 0.4)',
+          fontSize: '0.85rem',
+          color: '#cbd5e1',
+          zIndex: 2000
+        }}>
+          <label style={rowStyle}>
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => e.target.checked && settings.notifications
+                ? enableNotifications({ enabled: true })
+                : update({ enabled: e.target.checked })}
+            />
+            <span>Alert me about new earthquakes</span>
+          </label>
+          <label style={rowStyle}>
+            <span style={{ flex: 1 }}>Minimum magnitude</span>
+            <input
+              type="number"
+              min={0}
+              max={10}
+              step={0.1}
+              value={settings.minMagnitude}
+              onChange={(e) => {
+                const minMagnitude = parseFloat(e.target.value);
+                if (!isNaN(minMagnitude)) update({ minMagnitude });
+              }}
+              style={inputStyle}
+            />
+          </label>
+          <label style={rowStyle}>
+            <input
+              type="checkbox"
+              checked={settings.notifications}
+              disabled={!notificationsSupported()}
+              onChange={(e) => e.target.checked
+                ? enableNotifications({ notifications: true })
+                : update({ notifications: false })}
+            />
+            <span>Desktop notifications</span>
+          </label>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+            <label style={{ ...rowStyle, flex: 1 }}>
+              <input
+                type="checkbox"
+                checked={settings.sound}
+                onChange={(e) => update({ sound: e.target.checked })}
+              />
+              <span>Sound</span>
+            </label>
+            <button
+              onClick={() => playAlertSound(settings.minMagnitude)}
+              style={{ ...inputStyle, width: 'auto', cursor: 'pointer' }}
+            >
+              <i className="bi bi-volume-up"></i> Test
+            </button>
+          </div>
+          <label style={rowStyle}>
+            <input
+              type="checkbox"
+              checked={settings.nearMe}
+              onChange={(e) => toggleNearMe(e.target.checked)}
+            />
+            <span style={{ flex: 1 }}>Only within</span>
+            <input
+              type="number"
+              min={1}
+              step={10}
+              value={settings.radiusKm}
+              onChange={(e) => {
+                const radiusKm = parseFloat(e.target.value);
+                if (!isNaN(radiusKm) && radiusKm > 0) update({ radiusKm });
+              }}
+              style={inputStyle}
+            />
+            <span>km of me</span>
+          </label>
+          {status && (
+            <div style={{ fontSize: '0.8rem', color: '#fbbf24' }}>{status}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertSettingsPanel;
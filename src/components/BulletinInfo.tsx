@@ -0,0 +1,73 @@
+import { EarthquakeBulletin, IntensityReport } from '../types/earthquake';
+
+const ROMAN_VALUES: Record<string, number> = { I: 1, V: 5, X: 10 };
+
+// PEIS intensities are Roman numerals (I-X)
+const intensityValue = (intensity: string) =>
+  intensity.split('').reduce((total, char, i, chars) => {
+    const value = ROMAN_VALUES[char] || 0;
+    return (ROMAN_VALUES[chars[i + 1]] || 0) > value ? total - value : total + value;
+  }, 0);
+
+const highestIntensity = (reports: IntensityReport[]) =>
+  reports.reduce<string | null>(
+    (highest, report) => (!highest || intensityValue(report.intensity) > intensityValue(highest) ? report.intensity : highest),
+    null
+  );
+
+const bulletinStatus = (bulletin: EarthquakeBulletin) =>
+  `Bulletin${bulletin.number ? ` #${bulletin.number}` : ''}${bulletin.final ? ' (final)' : ''}`;
+
+const flagLabel = (value: boolean | null) => (value === null ? 'Unknown' : value ? 'Yes' : 'No');
+
+// One line for the earthquake list: bulletin status, highest felt intensity, damage warning
+export const BulletinSummary = ({ bulletin }: { bulletin: EarthquakeBulletin }) => {
+  const highest = highestIntensity(bulletin.reportedIntensities);
+  return (
+    <span className="earthquake-bulletin" style={{ fontSize: '0.8rem', opacity: 0.85 }}>
+      <i className="bi bi-file-earmark-text" style={{ marginRight: '6px' }}></i>
+      {bulletinStatus(bulletin)}
+      {highest && <> · Felt up to <b>Intensity {highest}</b></>}
+      {bulletin.expectingDamage && (
+        <span style={{ color: '#f87171', marginLeft: '6px' }}>
+          <i className="bi bi-exclamation-triangle-fill" style={{ marginRight: '4px' }}></i>Damage expected
+        </span>
+      )}
+    </span>
+  );
+};
+
+const IntensityList = ({ title, reports }: { title: string; reports: IntensityReport[] }) => (
+  <div style={{ margin: '6px 0' }}>
+    <strong style={{ color: '#e0e7ff' }}>{title}:</strong>
+    <ul style={{ margin: '4px 0 0 0', paddingLeft: '18px', maxHeight: '120px', overflowY: 'auto' }}>
+      {reports.map((report) => (
+        <li key={`${title}-${report.intensity}`}>
+          <b>{report.intensity}</b> – {report.locations.join('; ')}
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+// Full bulletin for the map popup
+export const BulletinDetails = ({ bulletin }: { bulletin: EarthquakeBulletin }) => (
+  <div style={{ fontSize: '0.8rem', color: '#cbd5e1' }}>
+    <p style={{ margin: '6px 0' }}>
+      <i className="bi bi-file-earmark-text" style={{ marginRight: '6px', color: '#60a5fa' }}></i>
+      <a href={bulletin.url} target="_blank" rel="noopener noreferrer">{bulletinStatus(bulletin)}</a>
+      {bulletin.origin && <> · {bulletin.origin.toLowerCase()} origin</>}
+    </p>
+    <p style={{ margin: '6px 0' }}>
+      <strong style={{ color: '#e0e7ff' }}>Damage expected:</strong> {flagLabel(bulletin.expectingDamage)}
+      {' · '}
+      <strong style={{ color: '#e0e7ff' }}>Aftershocks expected:</strong> {flagLabel(bulletin.expectingAftershocks)}
+    </p>
+    {bulletin.reportedIntensities.length > 0 && (
+      <IntensityList title="Reported intensities" reports={bulletin.reportedIntensities} />
+    )}
+    {bulletin.instrumentalIntensities.length > 0 && (
+      <IntensityList title="Instrumental intensities" reports={bulletin.instrumentalIntensities} />
+    )}
+  </div>
+);
@@ -1,9 +1,27 @@
-import { Earthquake } from '../types/earthquake';
+import { useState } from 'react';
+import { DateRange, Earthquake } from '../types/earthquake';
+import { BulletinSummary } from './BulletinInfo';
+import QualityBadge from './QualityBadge';
+import { isLowQuality } from '../services/earthquakeService';
 import './EarthquakeList.css';
 
 type SortOption = 'newest' | 'oldest' | 'magnitude-high' | 'magnitude-low';
 type FilterOption = 'all' | 'today' | 'week' | 'month' | 'year';
 
+const UNKNOWN_PROVINCE = 'Other / offshore';
+
+// Group in display order; provinces alphabetically, unparsed places last
+const groupByProvince = (earthquakes: Earthquake[]) => {
+  const groups = new Map<string, Earthquake[]>();
+  for (const earthquake of earthquakes) {
+    const province = earthquake.location?.province || UNKNOWN_PROVINCE;
+    groups.set(province, [...(groups.get(province) || []), earthquake]);
+  }
+  return Array.from(groups.entries()).sort(([a], [b]) =>
+    a === UNKNOWN_PROVINCE ? 1 : b === UNKNOWN_PROVINCE ? -1 : a.localeCompare(b)
+  );
+};
+
 interface EarthquakeListProps {
   earthquakes: Earthquake[]; // Already filtered and sorted
   allEarthquakes: Earthquake[]; // All earthquakes for count display
@@ -18,6 +36,10 @@ interface EarthquakeListProps {
   selectedMonth?: number; // Month filter from parent
   onYearChange?: (year: number | undefined) => void;
   onMonthChange?: (month: number | undefined) => void;
+  customRange?: DateRange; // Custom start/end dates from parent
+  onCustomRangeChange?: (range: DateRange | undefined) => void;
+  hideLowQuality?: boolean; // Hide earthquakes with guessed location, time or place
+  onHideLowQualityChange?: (hide: boolean) => void;
 }
 
 const EarthquakeList = ({ 
@@ -33,8 +55,14 @@ const EarthquakeList = ({
   selectedYear,
   selectedMonth,
   onYearChange,
-  onMonthChange
+  onMonthChange,
+  customRange,
+  onCustomRangeChange,
+  hideLowQuality = false,
+  onHideLowQualityChange
 }: EarthquakeListProps) => {
+  const [groupByProvinceEnabled, setGroupByProvinceEnabled] = useState(false);
+
   const formatDate = (timestamp: number) => {
     const date = new Date(timestamp);
     return date.toLocaleDateString('en-US', {
@@ -74,6 +102,48 @@ const EarthquakeList = ({
   // earthquakes prop is already filtered and sorted from App.tsx
   const sortedEarthquakes = earthquakes;
 
+  const renderEarthquake = (earthquake: Earthquake) => {
+    const isNew = newEarthquakeIds.has(earthquake.id);
+    return (
+      <div
+        key={earthquake.id}
+        className={`earthquake-item ${selectedEarthquake?.id === earthquake.id ? 'selected' : ''} ${isNew ? 'new-earthquake' : ''} ${isLowQuality(earthquake) ? 'low-quality' : ''}`}
+        onClick={() => onEarthquakeClick(earthquake)}
+      >
+        <div className="earthquake-magnitude" style={{ backgroundColor: getMagnitudeColor(earthquake.magnitude) }}>
+          {earthquake.magnitude.toFixed(1)}
+        </div>
+        <div className="earthquake-details">
+          <h3 className="earthquake-place">{earthquake.place}</h3>
+          <div className="earthquake-meta">
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
+              <span className="earthquake-time">
+                <i className="bi bi-calendar-event" style={{ marginRight: '6px' }}></i>{formatDate(earthquake.time)}
+              </span>
+              <span className="earthquake-time" style={{ fontSize: '0.85rem', opacity: 0.8 }}>
+                <i className="bi bi-clock" style={{ marginRight: '6px' }}></i><b>LOCAL TIME:</b> {formatTime(earthquake.time)}
+              </span>
+              <span className="earthquake-time" style={{ fontSize: '0.85rem', opacity: 0.8 }}>
+                <i className="bi bi-globe" style={{ marginRight: '6px' }}></i><b>UTC TIME:</b> {formatTimeUTC(earthquake.time)}
+              </span>
+            </div>
+            {earthquake.depth > 0 && (
+              <span className="earthquake-depth">
+              <i className="bi bi-layers" style={{ marginRight: '6px' }}></i><b>Depth:</b> {earthquake.depth.toFixed(1)} km</span>
+            )}
+            {(earthquake.latitude !== 0 || earthquake.longitude !== 0) && (
+              <span className="earthquake-coords" style={{ fontSize: '0.8rem', opacity: 0.7 }}>
+                <i className="bi bi-geo-alt-fill" style={{ marginRight: '6px', color: '#f87171' }}></i>{earthquake.latitude.toFixed(2)}°N, {earthquake.longitude.toFixed(2)}°E
+              </span>
+            )}
+            {earthquake.bulletin && <BulletinSummary bulletin={earthquake.bulletin} />}
+            <QualityBadge quality={earthquake.quality} />
+          </div>
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div className="earthquake-list">
       {allEarthquakes.length > 0 && (
@@ -100,7 +170,7 @@ const EarthquakeList = ({
                   backdropFilter: 'blur(8px)'
                 }}
               >
-                {selectedYear || selectedMonth ? (
+                {selectedYear || selectedMonth || customRange ? (
                   <>
                     <option value="all"><i className="bi bi-list-check"></i> All</option>
                   </>
@@ -148,8 +218,16 @@ const EarthquakeList = ({
                 Year:
               </label>
               <select
-                value={selectedYear || ''}
+                value={customRange ? 'custom' : selectedYear || ''}
                 onChange={(e) => {
+                  if (e.target.value === 'custom') {
+                    // A custom range replaces the year/month filter
+                    onYearChange?.(undefined);
+                    onMonthChange?.(undefined);
+                    onCustomRangeChange?.({ start: '', end: '' });
+                    return;
+                  }
+                  onCustomRangeChange?.(undefined);
                   const year = e.target.value ? parseInt(e.target.value) : undefined;
                   onYearChange?.(year);
                 }}
@@ -168,35 +246,94 @@ const EarthquakeList = ({
                 {[2024, 2023, 2022, 2021, 2020, 2019, 2018].map(year => (
                   <option key={year} value={year}>{year}</option>
                 ))}
+                <option value="custom">Custom range</option>
               </select>
 
-              <label style={{ color: '#cbd5e1', minWidth: '40px', fontWeight: '600' }}>
-                <i className="bi bi-calendar3" style={{ marginRight: '4px' }}></i>
-                Month:
-              </label>
-              <select
-                value={selectedMonth || ''}
-                onChange={(e) => {
-                  const month = e.target.value ? parseInt(e.target.value) : undefined;
-                  onMonthChange?.(month);
-                }}
-                style={{
-                  padding: '4px 8px',
-                  backgroundColor: '#1e293b',
-                  color: '#cbd5e1',
-                  border: '1px solid #475569',
-                  borderRadius: '4px',
-                  cursor: 'pointer',
-                  fontSize: '0.8rem',
-                  flex: 1
-                }}
-              >
-                <option value="">All Months</option>
-                {['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'].map((month, i) => (
-                  <option key={i + 1} value={i + 1}>{month}</option>
-                ))}
-              </select>
+              {customRange ? (
+                <>
+                  <input
+                    type="date"
+                    aria-label="Range start"
+                    value={customRange.start}
+                    max={customRange.end || undefined}
+                    onChange={(e) => onCustomRangeChange?.({ ...customRange, start: e.target.value })}
+                    style={{
+                      padding: '4px 8px',
+                      backgroundColor: '#1e293b',
+                      color: '#cbd5e1',
+                      border: '1px solid #475569',
+                      borderRadius: '4px',
+                      fontSize: '0.8rem',
+                      flex: 1
+                    }}
+                  />
+                  <span style={{ color: '#cbd5e1' }}>to</span>
+                  <input
+                    type="date"
+                    aria-label="Range end"
+                    value={customRange.end}
+                    min={customRange.start || undefined}
+                    onChange={(e) => onCustomRangeChange?.({ ...customRange, end: e.target.value })}
+                    style={{
+                      padding: '4px 8px',
+                      backgroundColor: '#1e293b',
+                      color: '#cbd5e1',
+                      border: '1px solid #475569',
+                      borderRadius: '4px',
+                      fontSize: '0.8rem',
+                      flex: 1
+                    }}
+                  />
+                </>
+              ) : (
+                <>
+                  <label style={{ color: '#cbd5e1', minWidth: '40px', fontWeight: '600' }}>
+                    <i className="bi bi-calendar3" style={{ marginRight: '4px' }}></i>
+                    Month:
+                  </label>
+                  <select
+                    value={selectedMonth || ''}
+                    onChange={(e) => {
+                      const month = e.target.value ? parseInt(e.target.value) : undefined;
+                      onMonthChange?.(month);
+                    }}
+                    style={{
+                      padding: '4px 8px',
+                      backgroundColor: '#1e293b',
+                      color: '#cbd5e1',
+                      border: '1px solid #475569',
+                      borderRadius: '4px',
+                      cursor: 'pointer',
+                      fontSize: '0.8rem',
+                      flex: 1
+                    }}
+                  >
+                    <option value="">All Months</option>
+                    {['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'].map((month, i) => (
+                      <option key={i + 1} value={i + 1}>{month}</option>
+                    ))}
+                  </select>
+                </>
+              )}
             </div>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.8rem', color: '#cbd5e1', cursor: 'pointer' }}>
+              <input
+                type="checkbox"
+                checked={groupByProvinceEnabled}
+                onChange={(e) => setGroupByProvinceEnabled(e.target.checked)}
+              />
+              Group by province
+            </label>
+            {onHideLowQualityChange && (
+              <label style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.8rem', color: '#cbd5e1', cursor: 'pointer' }}>
+                <input
+                  type="checkbox"
+                  checked={hideLowQuality}
+                  onChange={(e) => onHideLowQualityChange(e.target.checked)}
+                />
+                Hide events with estimated data
+              </label>
+            )}
             <div style={{ fontSize: '0.85rem', color: '#666', paddingTop: '0.25rem', borderTop: '1px solid #e0e0e0' }}>
               Showing {sortedEarthquakes.length} of {allEarthquakes.length} earthquake{sortedEarthquakes.length !== 1 ? 's' : ''}
             </div>
@@ -210,46 +347,18 @@ const EarthquakeList = ({
             The PHIVOLCS website structure may have changed, or there are no recent earthquakes to display.
           </p>
         </div>
-      ) : (
-        sortedEarthquakes.map((earthquake) => {
-          const isNew = newEarthquakeIds.has(earthquake.id);
-          return (
-          <div
-            key={earthquake.id}
-            className={`earthquake-item ${selectedEarthquake?.id === earthquake.id ? 'selected' : ''} ${isNew ? 'new-earthquake' : ''}`}
-            onClick={() => onEarthquakeClick(earthquake)}
-          >
-            <div className="earthquake-magnitude" style={{ backgroundColor: getMagnitudeColor(earthquake.magnitude) }}>
-              {earthquake.magnitude.toFixed(1)}
-            </div>
-            <div className="earthquake-details">
-              <h3 className="earthquake-place">{earthquake.place}</h3>
-              <div className="earthquake-meta">
-                <div style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
-                  <span className="earthquake-time">
-                    <i className="bi bi-calendar-event" style={{ marginRight: '6px' }}></i>{formatDate(earthquake.time)}
-                  </span>
-                  <span className="earthquake-time" style={{ fontSize: '0.85rem', opacity: 0.8 }}>
-                    <i className="bi bi-clock" style={{ marginRight: '6px' }}></i><b>LOCAL TIME:</b> {formatTime(earthquake.time)}
-                  </span>
-                  <span className="earthquake-time" style={{ fontSize: '0.85rem', opacity: 0.8 }}>
-                    <i className="bi bi-globe" style={{ marginRight: '6px' }}></i><b>UTC TIME:</b> {formatTimeUTC(earthquake.time)}
-                  </span>
-                </div>
-                {earthquake.depth > 0 && (
-                  <span className="earthquake-depth">
-                  <i className="bi bi-layers" style={{ marginRight: '6px' }}></i><b>Depth:</b> {earthquake.depth.toFixed(1)} km</span>
-                )}
-                {(earthquake.latitude !== 0 || earthquake.longitude !== 0) && (
-                  <span className="earthquake-coords" style={{ fontSize: '0.8rem', opacity: 0.7 }}>
-                    <i className="bi bi-geo-alt-fill" style={{ marginRight: '6px', color: '#f87171' }}></i>{earthquake.latitude.toFixed(2)}°N, {earthquake.longitude.toFixed(2)}°E
-                  </span>
-                )}
-              </div>
+      ) : groupByProvinceEnabled ? (
+        groupByProvince(sortedEarthquakes).map(([province, group]) => (
+          <div key={province} className="province-group">
+            <div className="province-group-header">
+              <i className="bi bi-pin-map" style={{ marginRight: '6px' }}></i>{province}
+              <span className="province-group-count">{group.length}</span>
             </div>
+            {group.map(renderEarthquake)}
           </div>
-          );
-        })
+        ))
+      ) : (
+        sortedEarthquakes.map(renderEarthquake)
       )}
     </div>
   );
@@ -1,7 +1,9 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, useMap } from 'react-leaflet';
+import { MapContainer, TileLayer, Marker, Popup, Polyline, CircleMarker, Tooltip, useMap } from 'react-leaflet';
 import L from 'leaflet';
-import { Earthquake } from '../types/earthquake';
+import { Earthquake, EarthquakeBulletin } from '../types/earthquake';
+import { fetchEarthquakeDetail, isLowQuality, qualityIssues } from '../services/earthquakeService';
+import { BulletinDetails } from './BulletinInfo';
 import 'leaflet/dist/leaflet.css';
 import './EarthquakeMap.css';
 
@@ -53,7 +55,8 @@ L.Icon.Default.mergeOptions({
 // Custom icon based on magnitude and whether it's new
 const getEarthquakeIcon = (
   magnitude: number,
-  isNew: boolean = false
+  isNew: boolean = false,
+  lowQuality: boolean = false // Guessed position, time or place: faded with a dashed border
 ) => {
   const size = Math.min(30 + magnitude * 5, 60);
   const color =
@@ -69,7 +72,8 @@ const getEarthquakeIcon = (
         height: ${size}px;
         border-radius: 50%;
         background-color: ${color};
-        border: 3px solid #fff;
+        border: 3px ${lowQuality ? 'dashed' : 'solid'} #fff;
+        opacity: ${lowQuality ? 0.55 : 1};
         position: relative;
         overflow: visible;
         display: flex;
@@ -334,6 +338,28 @@ const MarkerWithPopup = ({
   formatDate
 }: MarkerWithPopupProps) => {
   const markerRef = useRef<L.Marker | null>(null);
+  const [bulletin, setBulletin] = useState<EarthquakeBulletin | undefined>(earthquake.bulletin);
+  const [bulletinLoading, setBulletinLoading] = useState(false);
+
+  useEffect(() => {
+    setBulletin(earthquake.bulletin);
+  }, [earthquake.bulletin]);
+
+  useEffect(() => {
+    // Bulletins of older quakes are only fetched when someone opens them
+    if (!isSelected || bulletin || !earthquake.url) return;
+    const controller = new AbortController();
+    setBulletinLoading(true);
+    fetchEarthquakeDetail(earthquake.id, controller.signal)
+      .then((detail) => setBulletin(detail.bulletin))
+      .catch((error) => {
+        if (!controller.signal.aborted) console.warn('Could not load bulletin:', error);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setBulletinLoading(false);
+      });
+    return () => controller.abort();
+  }, [isSelected, bulletin, earthquake.id, earthquake.url]);
 
   useEffect(() => {
     // Open popup when this earthquake is selected
@@ -346,48 +372,92 @@ const MarkerWithPopup = ({
     }
   }, [isSelected]);
 
-  return (
-    <Marker
-      ref={markerRef}
-      position={[earthquake.latitude, earthquake.longitude]}
-      icon={getEarthquakeIcon(earthquake.magnitude, isNew)}
-      zIndexOffset={isSelected ? 1000 : 0} // <-- important
-      eventHandlers={{
-        click: () => onEarthquakeClick(earthquake),
-      }}
-    >
+  const reference = earthquake.location?.reference;
 
-      <PopupWithZoomOut earthquakes={earthquakes}>
-        <div style={{ minWidth: '260px', padding: '6px 0' }}>
-          <h3 style={{
-            margin: '0 0 10px 0',
-            color: '#60a5fa',
-            fontSize: '1.15rem',
-            fontWeight: '700',
-            letterSpacing: '-0.5px',
-            marginLeft: '6px'
-          }}>
-            <i className="bi bi-activity" style={{ marginRight: '6px', fontSize: '1.1rem' }}></i>
-            <strong>Magnitude: </strong>
-            {earthquake.magnitude.toFixed(1)}
-          </h3>
-          <div style={{ borderTop: '1px solid rgba(255, 255, 255, 0.15)', paddingTop: '10px', marginLeft: '6px', marginRight: '6px' }}>
-            <p style={{ margin: '6px 0', fontSize: '0.85rem', color: '#cbd5e1' }}>
-              <i className="bi bi-geo-alt-fill" style={{ marginRight: '6px', color: '#f87171' }}></i>
-              <strong style={{ color: '#e0e7ff' }}>Location:</strong> {earthquake.place}
-            </p>
-            <p style={{ margin: '6px 0', fontSize: '0.85rem', color: '#cbd5e1' }}>
-              <i className="bi bi-clock" style={{ marginRight: '6px', color: '#fbbf24' }}></i>
-              <strong style={{ color: '#e0e7ff' }}>Time:</strong> {formatDate(earthquake.time)}
-            </p>
-            <p style={{ margin: '6px 0', fontSize: '0.85rem', color: '#cbd5e1' }}>
-              <i className="bi bi-layers" style={{ marginRight: '6px', color: '#a78bfa' }}></i>
-              <strong style={{ color: '#e0e7ff' }}>Depth:</strong> {earthquake.depth.toFixed(1)} km
-            </p>
+  return (
+    <>
+      {isSelected && reference && (
+        // Line to the town PHIVOLCS measured the epicenter from
+        <>
+          <Polyline
+            positions={[[earthquake.latitude, earthquake.longitude], [reference.latitude, reference.longitude]]}
+            pathOptions={{ color: '#60a5fa', weight: 2, dashArray: '6 6' }}
+          />
+          <CircleMarker
+            center={[reference.latitude, reference.longitude]}
+            radius={5}
+            pathOptions={{ color: '#60a5fa', fillColor: '#1e293b', fillOpacity: 1, weight: 2 }}
+          >
+            <Tooltip permanent direction="top" offset={[0, -6]}>
+              {earthquake.location!.municipality}
+            </Tooltip>
+          </CircleMarker>
+        </>
+      )}
+      <Marker
+        ref={markerRef}
+        position={[earthquake.latitude, earthquake.longitude]}
+        icon={getEarthquakeIcon(earthquake.magnitude, isNew, isLowQuality(earthquake))}
+        zIndexOffset={isSelected ? 1000 : 0} // <-- important
+        eventHandlers={{
+          click: () => onEarthquakeClick(earthquake),
+        }}
+      >
+  
+        <PopupWithZoomOut earthquakes={earthquakes}>
+          <div style={{ minWidth: '260px', padding: '6px 0' }}>
+            <h3 style={{
+              margin: '0 0 10px 0',
+              color: '#60a5fa',
+              fontSize: '1.15rem',
+              fontWeight: '700',
+              letterSpacing: '-0.5px',
+              marginLeft: '6px'
+            }}>
+              <i className="bi bi-activity" style={{ marginRight: '6px', fontSize: '1.1rem' }}></i>
+              <strong>Magnitude: </strong>
+              {earthquake.magnitude.toFixed(1)}
+            </h3>
+            <div style={{ borderTop: '1px solid rgba(255, 255, 255, 0.15)', paddingTop: '10px', marginLeft: '6px', marginRight: '6px' }}>
+              <p style={{ margin: '6px 0', fontSize: '0.85rem', color: '#cbd5e1' }}>
+                <i className="bi bi-geo-alt-fill" style={{ marginRight: '6px', color: '#f87171' }}></i>
+                <strong style={{ color: '#e0e7ff' }}>Location:</strong> {earthquake.place}
+              </p>
+              {earthquake.location && (
+                <p style={{ margin: '6px 0', fontSize: '0.85rem', color: '#cbd5e1' }}>
+                  <i className="bi bi-compass" style={{ marginRight: '6px', color: '#60a5fa' }}></i>
+                  <strong style={{ color: '#e0e7ff' }}>From {earthquake.location.municipality}:</strong>{' '}
+                  {earthquake.location.distanceKm} km at {earthquake.location.bearing}°
+                </p>
+              )}
+              <p style={{ margin: '6px 0', fontSize: '0.85rem', color: '#cbd5e1' }}>
+                <i className="bi bi-clock" style={{ marginRight: '6px', color: '#fbbf24' }}></i>
+                <strong style={{ color: '#e0e7ff' }}>Time:</strong> {formatDate(earthquake.time)}
+              </p>
+              <p style={{ margin: '6px 0', fontSize: '0.85rem', color: '#cbd5e1' }}>
+                <i className="bi bi-layers" style={{ marginRight: '6px', color: '#a78bfa' }}></i>
+                <strong style={{ color: '#e0e7ff' }}>Depth:</strong> {earthquake.depth.toFixed(1)} km
+              </p>
+              {isLowQuality(earthquake) && (
+                <p style={{ margin: '6px 0', fontSize: '0.8rem', color: '#fbbf24' }}>
+                  <i className="bi bi-question-diamond" style={{ marginRight: '6px' }}></i>
+                  {qualityIssues(earthquake.quality).join(' · ')}
+                </p>
+              )}
+            </div>
+            {(bulletin || bulletinLoading) && (
+              <div style={{ borderTop: '1px solid rgba(255, 255, 255, 0.15)', marginTop: '8px', paddingTop: '4px', marginLeft: '6px', marginRight: '6px' }}>
+                {bulletin ? (
+                  <BulletinDetails bulletin={bulletin} />
+                ) : (
+                  <p style={{ margin: '6px 0', fontSize: '0.8rem', color: '#94a3b8' }}>Loading PHIVOLCS bulletin...</p>
+                )}
+              </div>
+            )}
           </div>
-        </div>
-      </PopupWithZoomOut>
-    </Marker>
+        </PopupWithZoomOut>
+      </Marker>
+    </>
   );
 };
 
@@ -0,0 +1,16 @@
+import { DataQuality } from '../types/earthquake';
+import { qualityIssues } from '../services/earthquakeService';
+
+// Marks an earthquake whose location, time or place the scraper had to guess
+const QualityBadge = ({ quality }: { quality?: DataQuality }) => {
+  const issues = qualityIssues(quality);
+  if (issues.length === 0) return null;
+  return (
+    <span className="quality-badge" title={`Parsed from ${quality?.sourceMethod} data: ${issues.join(', ').toLowerCase()}`}>
+      <i className="bi bi-question-diamond" style={{ marginRight: '4px' }}></i>
+      {issues.join(' · ')}
+    </span>
+  );
+};
+
+export default QualityBadge;
@@ -0,0 +1,167 @@
+import { Earthquake } from '../types/earthquake';
+
+// Opt-in desktop notifications and sound alerts for new earthquakes.
+// Settings live in localStorage so they survive reloads.
+
+export interface AlertSettings {
+  enabled: boolean;
+  notifications: boolean;
+  sound: boolean;
+  minMagnitude: number;
+  nearMe: boolean;
+  radiusKm: number;
+  location: { latitude: number; longitude: number } | null;
+}
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  enabled: false,
+  notifications: true,
+  sound: true,
+  minMagnitude: 4.5,
+  nearMe: false,
+  radiusKm: 100,
+  location: null,
+};
+
+const STORAGE_KEY = 'seismic-watcher:alert-settings';
+
+// Show at most this many individual notifications per batch, then a summary
+const MAX_NOTIFICATIONS = 3;
+
+// Only quakes this recent are alerted on; older ones come from archive loads or
+// backfills. PHIVOLCS lists a quake several minutes after its origin time, so this
+// is wider than the refresh interval.
+const MAX_ALERT_AGE_MS = 30 * 60 * 1000;
+
+export const loadAlertSettings = (): AlertSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_ALERT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_ALERT_SETTINGS;
+  } catch {
+    return DEFAULT_ALERT_SETTINGS;
+  }
+};
+
+export const saveAlertSettings = (settings: AlertSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Could not save alert settings:', error);
+  }
+};
+
+const distanceKm = (lat1: number, lon1: number, lat2: number, lon2: number) => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const a = Math.sin(toRad(lat2 - lat1) / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(toRad(lon2 - lon1) / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+export const matchesAlert = (earthquake: Earthquake, settings: AlertSettings) => {
+  if (!settings.enabled || earthquake.magnitude < settings.minMagnitude) return false;
+  if (settings.nearMe) {
+    // Without a known location the radius can't be checked, so don't alert
+    if (!settings.location) return false;
+    const { latitude, longitude } = settings.location;
+    return distanceKm(latitude, longitude, earthquake.latitude, earthquake.longitude) <= settings.radiusKm;
+  }
+  return true;
+};
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission | 'unsupported'> => {
+  if (!notificationsSupported()) return 'unsupported';
+  if (Notification.permission !== 'default') return Notification.permission;
+  return Notification.requestPermission();
+};
+
+export const getCurrentLocation = (): Promise<{ latitude: number; longitude: number }> =>
+  new Promise((resolve, reject) => {
+    if (!navigator.geolocation) {
+      reject(new Error('Geolocation is not supported by this browser'));
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+      (error) => reject(new Error(error.message || 'Could not get your location')),
+      { timeout: 15000, maximumAge: 10 * 60 * 1000 }
+    );
+  });
+
+let audioContext: AudioContext | null = null;
+
+// Short beeps generated with Web Audio, so no sound file is needed.
+// Bigger quakes get more (and lower) beeps.
+export const playAlertSound = (magnitude: number) => {
+  try {
+    audioContext = audioContext || new AudioContext();
+    const beeps = magnitude >= 6 ? 3 : magnitude >= 5 ? 2 : 1;
+    const frequency = magnitude >= 6 ? 520 : 880;
+
+    for (let i = 0; i < beeps; i++) {
+      const start = audioContext.currentTime + i * 0.35;
+      const oscillator = audioContext.createOscillator();
+      const gain = audioContext.createGain();
+      oscillator.type = 'sine';
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.0001, start);
+      gain.gain.exponentialRampToValueAtTime(0.3, start + 0.02);
+      gain.gain.exponentialRampToValueAtTime(0.0001, start + 0.25);
+      oscillator.connect(gain).connect(audioContext.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.3);
+    }
+  } catch (error) {
+    // Autoplay policies can block audio until the user has interacted with the page
+    console.warn('Could not play alert sound:', error);
+  }
+};
+
+const showNotification = (title: string, body: string, tag: string, onClick: () => void) => {
+  const notification = new Notification(title, { body, tag, icon: '/seismic-badge.svg' });
+  notification.onclick = () => {
+    window.focus();
+    onClick();
+    notification.close();
+  };
+};
+
+// Alert about earthquakes that match the settings. Clicking a notification
+// calls onSelect with its earthquake.
+export const alertEarthquakes = (
+  earthquakes: Earthquake[],
+  settings: AlertSettings,
+  onSelect: (earthquake: Earthquake) => void
+) => {
+  const cutoff = Date.now() - MAX_ALERT_AGE_MS;
+  const matching = earthquakes
+    .filter((eq) => eq.time >= cutoff && matchesAlert(eq, settings))
+    .sort((a, b) => b.magnitude - a.magnitude);
+  if (matching.length === 0) return;
+
+  if (settings.sound) {
+    playAlertSound(matching[0].magnitude);
+  }
+
+  if (settings.notifications && notificationsSupported() && Notification.permission === 'granted') {
+    // The tag makes the browser replace rather than repeat a notification for the same quake
+    matching.slice(0, MAX_NOTIFICATIONS).forEach((eq) => {
+      showNotification(
+        `M${eq.magnitude.toFixed(1)} earthquake`,
+        `${eq.place}\n${new Date(eq.time).toLocaleString()} · ${eq.depth} km deep`,
+        eq.id,
+        () => onSelect(eq)
+      );
+    });
+    if (matching.length > MAX_NOTIFICATIONS) {
+      const strongest = matching[0];
+      showNotification(
+        `${matching.length - MAX_NOTIFICATIONS} more earthquakes`,
+        'Open Seismic Watcher to see all new earthquakes',
+        'seismic-watcher-summary',
+        () => onSelect(strongest)
+      );
+    }
+  }
+};
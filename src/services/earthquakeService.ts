@@ -1,42 +1,96 @@
 import axios from 'axios';
-import { Earthquake } from '../types/earthquake';
+import { DataQuality, DateRange, Earthquake } from '../types/earthquake';
 
 // Use the Vercel API endpoint (/api/earthquakes)
 // In development, Vite proxy will handle /api requests to localhost:3001
 // In production, it will use the same domain as the frontend
 const BACKEND_API_URL = '/api';
 
-export const fetchEarthquakes = async (year?: number, month?: number): Promise<Earthquake[]> => {
+const normalizeEarthquake = (eq: Earthquake): Earthquake => ({
+  id: eq.id,
+  magnitude: eq.magnitude,
+  place: eq.place,
+  time: eq.time,
+  longitude: eq.longitude,
+  latitude: eq.latitude,
+  depth: eq.depth,
+  url: eq.url || '',
+  detail: eq.detail || '',
+  bulletin: eq.bulletin,
+  location: eq.location,
+  quality: eq.quality,
+});
+
+// Human-readable list of what the scraper guessed for an earthquake (empty when nothing)
+export const qualityIssues = (quality?: DataQuality): string[] => {
+  if (!quality) return [];
+  const issues: string[] = [];
+  if (quality.coordinatesImputed) issues.push('Location estimated');
+  if (quality.timeUnparsed) issues.push('Time unknown');
+  if (quality.placeImputed) issues.push('Place unknown');
+  if (quality.outOfRegion) issues.push('Outside the Philippine region');
+  return issues;
+};
+
+export const isLowQuality = (earthquake: Earthquake) => qualityIssues(earthquake.quality).length > 0;
+
+// PHIVOLCS changed its page layout and the backend could not read any earthquakes from it
+export class SourceFormatChangedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SourceFormatChangedError';
+  }
+}
+
+export interface EarthquakesResult {
+  earthquakes: Earthquake[];
+  // The backend no longer recognizes the PHIVOLCS page (X-Source-Format: changed);
+  // the earthquakes, if any, come from what it stored before
+  sourceFormatChanged: boolean;
+}
+
+const sourceFormatChanged = (headers: Record<string, unknown> | undefined) => headers?.['x-source-format'] === 'changed';
+
+// Aborting the signal cancels the request (and the backend's scrape behind it);
+// the rejection is then axios's cancel error, untouched, so callers can ignore it
+export const fetchEarthquakes = async (year?: number, month?: number, range?: DateRange, signal?: AbortSignal): Promise<EarthquakesResult> => {
   try {
     console.log('📡 Fetching earthquakes from /api/earthquakes...');
     
     // Build query parameters
     const params = new URLSearchParams();
-    if (year) params.append('year', year.toString());
-    if (month) params.append('month', month.toString());
+    if (range) {
+      // A date range replaces the year/month filter
+      params.append('start', range.start);
+      params.append('end', range.end);
+    } else {
+      if (year) params.append('year', year.toString());
+      if (month) params.append('month', month.toString());
+    }
     
     const queryString = params.toString();
     const url = `${BACKEND_API_URL}/earthquakes${queryString ? `?${queryString}` : ''}`;
     
     const response = await axios.get<Earthquake[]>(url, {
       timeout: 60000,
+      signal,
     });
 
-    return response.data.map((eq) => ({
-      id: eq.id,
-      magnitude: eq.magnitude,
-      place: eq.place,
-      time: eq.time,
-      longitude: eq.longitude,
-      latitude: eq.latitude,
-      depth: eq.depth,
-      url: eq.url || '',
-      detail: eq.detail || '',
-    }));
+    return {
+      earthquakes: response.data.map(normalizeEarthquake),
+      sourceFormatChanged: sourceFormatChanged(response.headers),
+    };
   } catch (error) {
+    if (axios.isCancel(error)) {
+      throw error;
+    }
     console.error('Error fetching earthquake data:', error);
     
     if (axios.isAxiosError(error)) {
+      if (sourceFormatChanged(error.response?.headers)) {
+        throw new SourceFormatChangedError(error.response?.data?.message || 'The PHIVOLCS page format has changed');
+      }
+
       if (error.code === 'ECONNREFUSED' || error.code === 'ERR_CONNECTION_REFUSED') {
         throw new Error('Cannot connect to API server. Please make sure the backend is running.');
       }
@@ -49,6 +103,11 @@ export const fetchEarthquakes = async (year?: number, month?: number): Promise<E
         throw new Error('Request timeout: The server took too long to respond. Please try again.');
       }
       
+      if (error.response?.status === 400) {
+        const backendError = error.response?.data?.message || 'Invalid request';
+        throw new Error(`Invalid filter: ${backendError}`);
+      }
+      
       if (error.response?.status === 500) {
         const backendError = error.response?.data?.message || 'Server error';
         throw new Error(`API Error: ${backendError}`);
@@ -68,3 +127,47 @@ export const fetchEarthquakes = async (year?: number, month?: number): Promise<E
   }
 };
 
+// One earthquake from /api/earthquakes/:id; the backend fetches its PHIVOLCS
+// bulletin on demand if it hasn't been parsed yet
+export const fetchEarthquakeDetail = async (id: string, signal?: AbortSignal): Promise<Earthquake> => {
+  const response = await axios.get<Earthquake>(`${BACKEND_API_URL}/earthquakes/${encodeURIComponent(id)}`, {
+    timeout: 30000,
+    signal,
+  });
+  return normalizeEarthquake(response.data);
+};
+
+export interface EarthquakeStreamHandlers {
+  onCreated: (earthquake: Earthquake) => void;
+  onUpdated: (earthquake: Earthquake) => void;
+  // Events were missed while disconnected; refetch the list
+  onResync: () => void;
+  onConnectionChange: (connected: boolean) => void;
+}
+
+// Subscribe to the backend's Server-Sent Events feed. EventSource reconnects on its
+// own and resends Last-Event-ID, so missed events are replayed by the server.
+// Returns an unsubscribe function.
+export const subscribeToEarthquakes = (handlers: EarthquakeStreamHandlers): (() => void) => {
+  if (typeof EventSource === 'undefined') {
+    handlers.onConnectionChange(false);
+    return () => {};
+  }
+
+  const source = new EventSource(`${BACKEND_API_URL}/earthquakes/stream`);
+  const parse = (event: MessageEvent) => normalizeEarthquake(JSON.parse(event.data) as Earthquake);
+
+  source.onopen = () => handlers.onConnectionChange(true);
+  source.onerror = () => {
+    // CLOSED means the browser gave up (e.g. the endpoint doesn't exist), CONNECTING means it will retry
+    if (source.readyState === EventSource.CLOSED) {
+      console.warn('📡 Live updates unavailable, falling back to polling');
+    }
+    handlers.onConnectionChange(false);
+  };
+  source.addEventListener('quake.created', (event) => handlers.onCreated(parse(event as MessageEvent)));
+  source.addEventListener('quake.updated', (event) => handlers.onUpdated(parse(event as MessageEvent)));
+  source.addEventListener('resync', () => handlers.onResync());
+
+  return () => source.close();
+};
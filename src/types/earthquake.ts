@@ -8,22 +8,92 @@ export interface Earthquake {
   depth: number;
   url: string;
   detail: string;
+  bulletin?: EarthquakeBulletin;
+  // `place` decomposed, when it follows the usual PHIVOLCS pattern
+  location?: PlaceLocation | null;
+  // What the scraper had to guess for this record
+  quality?: DataQuality;
 }
 
+export interface DataQuality {
+  sourceMethod: 'table' | 'div' | 'script';
+  coordinatesImputed: boolean;
+  timeUnparsed: boolean;
+  placeImputed: boolean;
+  outOfRegion: boolean;
+}
+
+// "046 km S 42° E of Governor Generoso (Davao Oriental)"
+export interface PlaceLocation {
+  raw: string;
+  distanceKm: number;
+  // Degrees clockwise from north, from the reference town to the epicenter
+  bearing: number;
+  municipality: string;
+  province: string | null;
+  reference: { latitude: number; longitude: number } | null;
+}
+
+// Places that felt one PHIVOLCS intensity level (Roman numeral, PEIS scale)
+export interface IntensityReport {
+  intensity: string;
+  locations: string[];
+}
+
+// Parsed PHIVOLCS earthquake information bulletin (see /api/earthquakes/:id)
+export interface EarthquakeBulletin {
+  url: string;
+  fetchedAt: number;
+  number: number | null;
+  final: boolean;
+  time: number | null;
+  magnitude: number | null;
+  depth: number | null;
+  latitude: number | null;
+  longitude: number | null;
+  place: string | null;
+  origin: string | null;
+  reportedIntensities: IntensityReport[];
+  instrumentalIntensities: IntensityReport[];
+  expectingDamage: boolean | null;
+  expectingAftershocks: boolean | null;
+  issuedAt: number | null;
+}
+
+// Inclusive date range as YYYY-MM-DD strings (Philippine calendar days)
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+// GeoJSON FeatureCollection served by /api/earthquakes.geojson (USGS feed format)
 export interface EarthquakeData {
+  type: 'FeatureCollection';
+  metadata: {
+    generated: number;
+    url: string;
+    title: string;
+    status: number;
+    api: string;
+    count: number;
+  };
+  bbox?: [number, number, number, number, number, number]; // [minLon, minLat, minDepth, maxLon, maxLat, maxDepth]
   features: Array<{
+    type: 'Feature';
     id: string;
     properties: {
       mag: number;
       place: string;
       time: number;
-      url: string;
-      detail: string;
+      updated: number;
+      url: string | null;
+      detail: string | null;
+      title: string;
+      net: string;
     };
     geometry: {
-      type: string;
+      type: 'Point';
       coordinates: [number, number, number]; // [longitude, latitude, depth]
     };
   }>;
 }
-